@@ -0,0 +1,119 @@
+import { importEntry } from 'import-html-entry';
+import { navigateToUrl } from 'single-spa';
+import { loadMicroApp, registerMicroApps, start, unregisterMicroApps, updateMicroApp } from '../apis';
+import { sleep } from '../utils';
+
+jest.mock('import-html-entry', () => ({ importEntry: jest.fn() }));
+
+const mockedImportEntry = importEntry as jest.Mock;
+
+type MockedLifecycles = { bootstrap: jest.Mock; mount: jest.Mock; unmount: jest.Mock };
+const entryLifecyclesMap = new Map<string, MockedLifecycles>();
+
+// every entry exports its own lifecycles, thus we could tell which entry is mounted
+function getEntryLifecycles(entry: string) {
+  if (!entryLifecyclesMap.has(entry)) {
+    entryLifecyclesMap.set(entry, {
+      bootstrap: jest.fn(async () => {}),
+      mount: jest.fn(async () => {}),
+      unmount: jest.fn(async () => {}),
+    });
+  }
+
+  return entryLifecyclesMap.get(entry)!;
+}
+
+async function waitFor(assertion: () => void) {
+  for (let i = 0; i < 50; i++) {
+    try {
+      assertion();
+      return;
+    } catch (e) {
+      // eslint-disable-next-line no-await-in-loop
+      await sleep(10);
+    }
+  }
+
+  assertion();
+}
+
+function createContainer(id: string) {
+  const container = document.createElement('div');
+  container.id = id;
+  document.body.appendChild(container);
+  return container;
+}
+
+beforeAll(() => {
+  mockedImportEntry.mockImplementation(async (entry: string) => ({
+    template: `<div class="content">${entry}</div>`,
+    assetPublicPath: '/',
+    getExternalScripts: async () => [],
+    execScripts: async () => getEntryLifecycles(entry),
+  }));
+  start({ sandbox: false, prefetch: false });
+});
+
+afterEach(() => {
+  mockedImportEntry.mockClear();
+  navigateToUrl('/');
+});
+
+test('should unmount the app while unregistering it mounted', async () => {
+  const container = createContainer('unregister-container');
+  registerMicroApps([
+    { name: 'unregisterApp', entry: '//unregister', container: '#unregister-container', activeRule: '/unregister' },
+  ]);
+
+  navigateToUrl('/unregister');
+  await waitFor(() => expect(getEntryLifecycles('//unregister').mount).toBeCalledTimes(1));
+  expect(container.innerHTML).toContain('//unregister');
+
+  await unregisterMicroApps('unregisterApp');
+  expect(getEntryLifecycles('//unregister').unmount).toBeCalledTimes(1);
+  expect(container.innerHTML).toBe('');
+
+  // the app would never be mounted again after unregistered
+  navigateToUrl('/');
+  navigateToUrl('/unregister');
+  await sleep(50);
+  expect(getEntryLifecycles('//unregister').mount).toBeCalledTimes(1);
+});
+
+test('should remount the app with the new entry while replacing it', async () => {
+  const container = createContainer('update-container');
+  registerMicroApps([
+    { name: 'updateApp', entry: '//update-v1', container: '#update-container', activeRule: '/update' },
+  ]);
+
+  navigateToUrl('/update');
+  await waitFor(() => expect(getEntryLifecycles('//update-v1').mount).toBeCalledTimes(1));
+
+  await updateMicroApp('updateApp', { entry: '//update-v2' });
+  await waitFor(() => expect(getEntryLifecycles('//update-v2').mount).toBeCalledTimes(1));
+  expect(getEntryLifecycles('//update-v1').unmount).toBeCalledTimes(1);
+  expect(container.innerHTML).toContain('//update-v2');
+
+  await expect(updateMicroApp('notRegisteredApp', {})).rejects.toThrow(
+    'Can not update notRegisteredApp as it has not been registered!',
+  );
+  await unregisterMicroApps('updateApp');
+});
+
+test('should only drop the lifecycles cache of the unregistered app', async () => {
+  const container = createContainer('cache-container');
+  registerMicroApps([{ name: 'cacheApp', entry: '//cache', container: '#cache-container', activeRule: '/cache' }]);
+
+  // the app whose name starts with the unregistered one
+  const loadPrefixedApp = async () => {
+    const microApp = loadMicroApp({ name: 'cacheApp-prefixed', entry: '//cache-prefixed', container });
+    await microApp.mountPromise;
+    await microApp.unmount();
+  };
+  await loadPrefixedApp();
+  expect(mockedImportEntry).toBeCalledTimes(1);
+
+  await unregisterMicroApps('cacheApp');
+  await loadPrefixedApp();
+  expect(mockedImportEntry).toBeCalledTimes(1);
+});
@@ -0,0 +1,61 @@
+import {
+  QiankunContainerNotFoundError,
+  QiankunEntryFetchError,
+  QiankunError,
+  QiankunLifecycleNotFoundError,
+  QiankunSandboxViolationError,
+  QiankunScriptEvaluationError,
+  QiankunTimeoutError,
+} from '../error';
+
+test('should carry the detail of app and the cause', () => {
+  const cause = new TypeError('Failed to fetch');
+  const error = new QiankunEntryFetchError('Failed to fetch the entry of app1', {
+    appName: 'app1',
+    appInstanceId: 'app1_1',
+    phase: 'load',
+    cause,
+  });
+
+  expect(error).toBeInstanceOf(QiankunEntryFetchError);
+  expect(error).toBeInstanceOf(QiankunError);
+  expect(error).toBeInstanceOf(Error);
+  expect(error.name).toBe('QiankunEntryFetchError');
+  expect(error.message).toBe('[qiankun]: Failed to fetch the entry of app1');
+  expect(error).toMatchObject({ appName: 'app1', appInstanceId: 'app1_1', phase: 'load', cause });
+});
+
+test('should be told apart by the subclasses', () => {
+  const errors = [
+    new QiankunEntryFetchError('entry', { phase: 'load' }),
+    new QiankunScriptEvaluationError('script', { phase: 'load' }),
+    new QiankunLifecycleNotFoundError('lifecycle', { phase: 'load' }),
+    new QiankunContainerNotFoundError('container', { phase: 'mount' }),
+    new QiankunSandboxViolationError('sandbox', { phase: 'mount' }),
+  ];
+
+  errors.forEach((error, index) => {
+    expect(error).toBeInstanceOf(QiankunError);
+    errors
+      .filter((_, otherIndex) => otherIndex !== index)
+      .forEach((other) => expect(error).not.toBeInstanceOf(other.constructor));
+  });
+  expect(errors.map(({ name }) => name)).toEqual([
+    'QiankunEntryFetchError',
+    'QiankunScriptEvaluationError',
+    'QiankunLifecycleNotFoundError',
+    'QiankunContainerNotFoundError',
+    'QiankunSandboxViolationError',
+  ]);
+  expect(errors.map(({ phase }) => phase)).toEqual(['load', 'load', 'load', 'mount', 'mount']);
+});
+
+test('should take the timeout and phase into the timeout error', () => {
+  const error = new QiankunTimeoutError(3000, { appName: 'app1', phase: 'mount' });
+
+  expect(error).toBeInstanceOf(QiankunError);
+  expect(error.timeout).toBe(3000);
+  expect(error.phase).toBe('mount');
+  expect(error.cause).toBeUndefined();
+  expect(error.message).toBe('[qiankun]: app1 mount timeout after 3000ms!');
+});
@@ -0,0 +1,55 @@
+import { qiankunEvents } from '../events';
+
+test('should notify the listeners of the event type and wildcard', () => {
+  const mountedListener = jest.fn();
+  const wildcardListener = jest.fn();
+
+  const offMounted = qiankunEvents.on('app:mounted', mountedListener);
+  const offWildcard = qiankunEvents.on('*', wildcardListener);
+
+  qiankunEvents.emit('app:mounted', { appName: 'react16', appInstanceId: 'react16_1', duration: 10 });
+  qiankunEvents.emit('app:unmounted', { appName: 'react16', appInstanceId: 'react16_1' });
+
+  expect(mountedListener).toBeCalledTimes(1);
+  expect(mountedListener.mock.calls[0][0]).toMatchObject({
+    type: 'app:mounted',
+    appName: 'react16',
+    appInstanceId: 'react16_1',
+    duration: 10,
+  });
+  expect(wildcardListener).toBeCalledTimes(2);
+
+  offMounted();
+  offWildcard();
+  qiankunEvents.emit('app:mounted', { appName: 'react16' });
+  expect(mountedListener).toBeCalledTimes(1);
+  expect(wildcardListener).toBeCalledTimes(2);
+});
+
+test('should only notify once listener one time', () => {
+  const listener = jest.fn();
+  qiankunEvents.once('app:loaded', listener);
+
+  qiankunEvents.emit('app:loaded', { appName: 'vue' });
+  qiankunEvents.emit('app:loaded', { appName: 'vue' });
+
+  expect(listener).toBeCalledTimes(1);
+});
+
+test('should not break the other listeners while one of them threw', () => {
+  const brokenListener = () => {
+    throw new Error('broken');
+  };
+  const listener = jest.fn();
+  const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  qiankunEvents.on('app:error', brokenListener);
+  qiankunEvents.on('app:error', listener);
+  qiankunEvents.emit('app:error', { appName: 'vue', phase: 'mount', error: new Error('mount failed') });
+
+  expect(listener).toBeCalledTimes(1);
+  expect(errorSpy).toBeCalledTimes(1);
+
+  qiankunEvents.off('app:error');
+  errorSpy.mockRestore();
+});
@@ -98,3 +98,207 @@ test('test slave to slave actions', () => {
   };
   slaveA.onGlobalStateChange(callback2, true);
 });
+
+// global: { ignore: 'slaveA', user: 'slaveB' }
+
+test('test slice listeners', () => {
+  slaveA.offGlobalStateChange();
+  const slaveC = getMicroAppStateActions('slaveC');
+
+  const userListener = jest.fn();
+  const keysListener = jest.fn();
+  const selectorListener = jest.fn();
+  const deepListener = jest.fn();
+
+  const offUser = slaveC.onGlobalStateChange('user', userListener, { fireImmediately: true });
+  slaveC.onGlobalStateChange(['user', 'ignore'], keysListener);
+  slaveC.onGlobalStateChange((state) => state.profile?.name, selectorListener);
+  slaveC.onGlobalStateChange((state) => state.profile, deepListener, { equality: 'deep' });
+
+  expect(userListener).toBeCalledWith('slaveB', 'slaveB');
+
+  master.setGlobalState({ profile: { name: 'kuitos' } });
+  expect(userListener).toBeCalledTimes(1);
+  expect(keysListener).toBeCalledTimes(0);
+  expect(selectorListener).toBeCalledWith('kuitos', undefined);
+  expect(deepListener).toBeCalledWith({ name: 'kuitos' }, undefined);
+
+  // a new reference with the same content
+  master.setGlobalState({ profile: { name: 'kuitos' } });
+  expect(selectorListener).toBeCalledTimes(1);
+  expect(deepListener).toBeCalledTimes(1);
+
+  master.setGlobalState({ user: 'slaveC' });
+  expect(userListener).toHaveBeenLastCalledWith('slaveC', 'slaveB');
+  expect(keysListener).toBeCalledWith({ ignore: 'slaveA', user: 'slaveC' }, { ignore: 'slaveA', user: 'slaveB' });
+
+  offUser();
+  master.setGlobalState({ user: 'master' });
+  expect(userListener).toBeCalledTimes(2);
+  expect(keysListener).toBeCalledTimes(2);
+
+  slaveC.offGlobalStateChange();
+  master.setGlobalState({ user: 'slaveC', profile: { name: 'qiankun' } });
+  expect(keysListener).toBeCalledTimes(2);
+  expect(selectorListener).toBeCalledTimes(1);
+});
+
+test('test schema validation and write permissions', () => {
+  const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const master2 = initGlobalState(
+    { user: { name: 'qiankun' }, theme: 'light' },
+    {
+      schema: {
+        user: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+        theme: { enum: ['light', 'dark'] },
+      },
+      permissions: { user: ['auth-app'] },
+    },
+  );
+  const authApp = getMicroAppStateActions('auth-app_1', false, 'auth-app');
+  const otherApp = getMicroAppStateActions('other-app_1', false, 'other-app');
+
+  expect(otherApp.setGlobalState({ user: { name: 'other' } })).toEqual({
+    success: false,
+    changedKeys: [],
+    rejectedKeys: [{ key: 'user', reason: 'forbidden', message: "'other-app' has no permission to write 'user'" }],
+  });
+
+  const result = authApp.setGlobalState({ user: { name: 1 }, theme: 'dark', undeclared: true });
+  expect(result.success).toBe(false);
+  expect(result.changedKeys).toEqual(['theme']);
+  expect(result.rejectedKeys.map(({ key, reason }) => [key, reason])).toEqual([
+    ['user', 'invalid'],
+    ['undeclared', 'undeclared'],
+  ]);
+
+  expect(authApp.setGlobalState({ user: { name: 'auth' } })).toEqual({
+    success: true,
+    changedKeys: ['user'],
+    rejectedKeys: [],
+  });
+
+  // master could write all keys, but the value should be valid
+  expect(master2.setGlobalState({ theme: 'blue' }).rejectedKeys[0].reason).toBe('invalid');
+  expect(master2.setGlobalState({ user: { name: 'master' } }).success).toBe(true);
+
+  warnSpy.mockRestore();
+});
+
+test('test persist and rehydrate global state', () => {
+  const persistName = '__qiankun_global_state_test__';
+  localStorage.setItem(persistName, JSON.stringify({ version: 1, state: { theme: 'dark', token: 'stale' } }));
+
+  const migrate = jest.fn((state: Record<string, any>) => ({ ...state, locale: 'zh-CN' }));
+  const listener = jest.fn();
+  const master3 = initGlobalState(
+    { theme: 'light', locale: 'en-US', token: 'fresh' },
+    { persist: { keys: ['theme', 'locale'], name: persistName, version: 2, migrate } },
+  );
+  master3.onGlobalStateChange((state, prevState) => listener(state, prevState), true);
+
+  expect(migrate).toBeCalledWith({ theme: 'dark', token: 'stale' }, 1);
+  expect(listener).toBeCalledWith(
+    { theme: 'dark', locale: 'zh-CN', token: 'fresh' },
+    { theme: 'dark', locale: 'zh-CN', token: 'fresh' },
+  );
+
+  master3.setGlobalState({ theme: 'light', token: 'new' });
+  expect(JSON.parse(localStorage.getItem(persistName)!)).toEqual({
+    version: 2,
+    state: { theme: 'light', locale: 'zh-CN' },
+  });
+
+  // custom storage adapter
+  const storage = { getItem: jest.fn(() => null), setItem: jest.fn() };
+  initGlobalState({ theme: 'dark' }, { persist: { keys: ['theme'], storage } });
+  expect(storage.setItem).toBeCalledWith(
+    '__qiankun_global_state__',
+    JSON.stringify({ version: 0, state: { theme: 'dark' } }),
+  );
+
+  master3.offGlobalStateChange();
+  localStorage.removeItem(persistName);
+});
+
+test('test drop the persisted state failed the schema validation', () => {
+  const persistName = '__qiankun_global_state_invalid_test__';
+  const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  localStorage.setItem(persistName, JSON.stringify({ version: 0, state: { theme: 'blue', locale: 'zh-CN' } }));
+
+  const master5 = initGlobalState(
+    { theme: 'light', locale: 'en-US' },
+    {
+      schema: { theme: { enum: ['light', 'dark'] }, locale: { type: 'string' } },
+      persist: { keys: ['theme', 'locale'], name: persistName },
+    },
+  );
+  const listener = jest.fn();
+  master5.onGlobalStateChange((state) => listener(state), true);
+  expect(listener).toBeCalledWith({ theme: 'light', locale: 'zh-CN' });
+  expect(warnSpy).toBeCalledWith(expect.stringContaining('persisted global state is dropped'));
+
+  master5.offGlobalStateChange();
+  localStorage.removeItem(persistName);
+  warnSpy.mockRestore();
+});
+
+test('test cross-tab synchronisation with storage event', () => {
+  const syncName = '__qiankun_global_state_sync_test__';
+  const listener = jest.fn();
+  const master4 = initGlobalState({ user: 'kuitos', token: 'token' }, { sync: { name: syncName } });
+  master4.onGlobalStateChange((state, prevState) => listener(state, prevState));
+
+  const dispatchFromOtherTab = (message: Record<string, any>) =>
+    window.dispatchEvent(new StorageEvent('storage', { key: syncName, newValue: JSON.stringify(message) }));
+
+  master4.setGlobalState({ user: 'master' });
+  const { version } = JSON.parse(localStorage.getItem(syncName)!);
+  expect(JSON.parse(localStorage.getItem(syncName)!)).toMatchObject({ state: { user: 'master' } });
+
+  // logout in other tab
+  dispatchFromOtherTab({ version: version + 1, origin: 'other-tab', state: { token: null } });
+  expect(listener).toHaveBeenLastCalledWith({ user: 'master', token: null }, { user: 'master', token: 'token' });
+
+  // stale write should be ignored
+  dispatchFromOtherTab({ version, origin: 'stale-tab', state: { token: 'stale' } });
+  expect(listener).toBeCalledTimes(2);
+
+  // the next write should take a version after the latest one
+  master4.setGlobalState({ user: 'kuitos' });
+  expect(JSON.parse(localStorage.getItem(syncName)!).version).toBeGreaterThan(version + 1);
+
+  master4.offGlobalStateChange();
+  initGlobalState({});
+});
+
+test('test take the writes of a newly opened tab and resolve the conflicts key by key', () => {
+  const syncName = '__qiankun_global_state_clock_test__';
+  // ahead of the versions written by the previous tests
+  const baseTime = Date.now() + 100000;
+  const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(baseTime);
+  const master6 = initGlobalState({ user: 'kuitos', token: 'token', theme: 'light' }, { sync: { name: syncName } });
+  const dispatchFromOtherTab = (message: Record<string, any>) =>
+    window.dispatchEvent(new StorageEvent('storage', { key: syncName, newValue: JSON.stringify(message) }));
+
+  master6.setGlobalState({ user: 'master1' });
+  master6.setGlobalState({ user: 'master2' });
+  master6.setGlobalState({ user: 'master3' });
+  expect(JSON.parse(localStorage.getItem(syncName)!).version).toBe(baseTime + 2);
+
+  // the newly opened tab has not seen any message, its first write is versioned by its clock
+  nowSpy.mockReturnValue(baseTime + 5000);
+  dispatchFromOtherTab({ version: Date.now(), origin: 'new-tab', state: { token: null } });
+
+  // the writes of different keys at the same version are both taken
+  dispatchFromOtherTab({ version: baseTime + 6000, origin: 'tab-a', state: { user: 'tab-a' } });
+  dispatchFromOtherTab({ version: baseTime + 6000, origin: 'tab-b', state: { theme: 'dark' } });
+  // the same key at the same version is decided by the tab id
+  dispatchFromOtherTab({ version: baseTime + 6000, origin: 'tab-0', state: { user: 'tab-0' } });
+
+  master6.onGlobalStateChange((state) => expect(state).toEqual({ user: 'tab-a', token: null, theme: 'dark' }), true);
+
+  master6.offGlobalStateChange();
+  nowSpy.mockRestore();
+  initGlobalState({});
+});
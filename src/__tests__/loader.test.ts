@@ -0,0 +1,202 @@
+import { importEntry } from 'import-html-entry';
+import { noop } from 'lodash';
+import { QiankunEntryFetchError, QiankunScriptEvaluationError } from '../error';
+import { loadApp } from '../loader';
+import { sleep } from '../utils';
+
+jest.mock('import-html-entry', () => ({ importEntry: jest.fn() }));
+
+const mockedImportEntry = importEntry as jest.Mock;
+
+function mockEntry(lifecycles = { bootstrap: async () => {}, mount: async () => {}, unmount: async () => {} }) {
+  mockedImportEntry.mockImplementation(async () => ({
+    template: '<div class="app-content"></div>',
+    assetPublicPath: '/',
+    // the scripts fetching takes some time after waiting
+    getExternalScripts: () => sleep(10).then(() => []),
+    execScripts: async () => lifecycles,
+  }));
+}
+
+async function runLifecycles(lifecycles: any, props: Record<string, any> = {}) {
+  // eslint-disable-next-line no-restricted-syntax
+  for (const lifecycle of Array.isArray(lifecycles) ? lifecycles : [lifecycles]) {
+    // eslint-disable-next-line no-await-in-loop
+    await lifecycle(props);
+  }
+}
+
+afterEach(() => {
+  mockedImportEntry.mockReset();
+  document.body.innerHTML = '';
+});
+
+test('should not count the time waiting for the previous app unmounting into the load deadline', async () => {
+  mockEntry();
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const configuration = { sandbox: false, singular: true, timeouts: { load: 50 } };
+
+  const prevApp = (await loadApp({ name: 'prevApp', entry: '//prev', container }, configuration))();
+  await runLifecycles(prevApp.mount, { name: 'prevApp' });
+
+  // the previous app unmounts slowly but validly
+  const loading = loadApp({ name: 'nextApp', entry: '//next', container }, configuration);
+  await sleep(100);
+  await runLifecycles(prevApp.unmount, { name: 'prevApp' });
+
+  await expect(loading).resolves.toBeInstanceOf(Function);
+});
+
+test('should not count the time of beforeLoad hooks into the load deadline', async () => {
+  mockEntry();
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+
+  const loading = loadApp(
+    { name: 'slowBeforeLoadApp', entry: '//slow', container },
+    { sandbox: false, timeouts: { load: 50 } },
+    { beforeLoad: () => sleep(100) },
+  );
+
+  await expect(loading).resolves.toBeInstanceOf(Function);
+});
+
+test('should time out while loading the app exceeds the deadline', async () => {
+  mockedImportEntry.mockImplementation(() => sleep(60).then(noop));
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+
+  await expect(
+    loadApp({ name: 'timeoutApp', entry: '//timeout', container }, { sandbox: false, timeouts: { load: 30 } }),
+  ).rejects.toThrow('timeoutApp load timeout after 30ms!');
+});
+
+test('should throw the entry fetch error while the scripts fetching failed', async () => {
+  const cause = new TypeError('Failed to fetch');
+  mockedImportEntry.mockImplementation(async () => ({
+    template: '<div></div>',
+    assetPublicPath: '/',
+    getExternalScripts: () => Promise.reject(cause),
+    execScripts: async () => ({}),
+  }));
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+
+  const loading = loadApp({ name: 'scriptsFetchApp', entry: '//scripts', container }, { sandbox: false });
+  await expect(loading).rejects.toBeInstanceOf(QiankunEntryFetchError);
+  await expect(loading).rejects.toMatchObject({ appName: 'scriptsFetchApp', phase: 'load', cause });
+});
+
+test('should throw the script evaluation error while the scripts evaluating failed', async () => {
+  const cause = new ReferenceError('foo is not defined');
+  mockedImportEntry.mockImplementation(async () => ({
+    template: '<div></div>',
+    assetPublicPath: '/',
+    getExternalScripts: async () => [],
+    execScripts: () => Promise.reject(cause),
+  }));
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+
+  const loading = loadApp({ name: 'scriptsEvaluationApp', entry: '//scripts', container }, { sandbox: false });
+  await expect(loading).rejects.toBeInstanceOf(QiankunScriptEvaluationError);
+  await expect(loading).rejects.toMatchObject({ phase: 'load', cause });
+});
+
+test('should retry the retryable failures with backoff and bust the cache of entry', async () => {
+  const fetchError = new TypeError('Failed to fetch');
+  mockedImportEntry.mockRejectedValueOnce(fetchError).mockRejectedValueOnce(fetchError);
+  mockEntry();
+  const backoff = jest.fn((attempt: number) => attempt * 20);
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+
+  const startTime = Date.now();
+  await loadApp(
+    { name: 'retryApp', entry: '//retry/?v=1#/home', container, retry: { times: 2, backoff } },
+    { sandbox: false },
+  );
+
+  expect(Date.now() - startTime).toBeGreaterThanOrEqual(60);
+  expect(backoff.mock.calls).toEqual([[1], [2]]);
+  expect(mockedImportEntry).toBeCalledTimes(3);
+  const [firstEntry, secondEntry, thirdEntry] = mockedImportEntry.mock.calls.map(([entry]) => entry);
+  expect(firstEntry).toBe('//retry/?v=1#/home');
+  // the query is appended to the existed one and the hash is kept at the end
+  expect(secondEntry).toMatch(/^\/\/retry\/\?v=1&__qiankun_retry__=\d+_1#\/home$/);
+  expect(thirdEntry).toMatch(/^\/\/retry\/\?v=1&__qiankun_retry__=\d+_2#\/home$/);
+});
+
+test('should give up retrying after the retry times exhausted', async () => {
+  mockedImportEntry.mockRejectedValue(new TypeError('Failed to fetch'));
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+
+  await expect(
+    loadApp({ name: 'exhaustedApp', entry: '//exhausted', container, retry: { times: 1 } }, { sandbox: false }),
+  ).rejects.toBeInstanceOf(QiankunEntryFetchError);
+  expect(mockedImportEntry).toBeCalledTimes(2);
+});
+
+test('should bust the cache of the assets of config entry and html entry while retrying', async () => {
+  mockedImportEntry.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+  mockEntry();
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+
+  await loadApp(
+    {
+      name: 'configEntryApp',
+      entry: { scripts: ['//config/main.js', '<script>inline</script>'], styles: ['//config/main.css?v=1'], html: '' },
+      container,
+      retry: { times: 1 },
+    },
+    { sandbox: false },
+  );
+  const [retriedEntry] = mockedImportEntry.mock.calls[1];
+  expect(retriedEntry.scripts[0]).toMatch(/^\/\/config\/main\.js\?__qiankun_retry__=\d+_1$/);
+  // the inline scripts are kept as they are
+  expect(retriedEntry.scripts[1]).toBe('<script>inline</script>');
+  expect(retriedEntry.styles[0]).toMatch(/^\/\/config\/main\.css\?v=1&__qiankun_retry__=\d+_1$/);
+
+  mockedImportEntry.mockReset();
+  mockedImportEntry.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+  mockEntry();
+  await loadApp({ name: 'htmlEntryApp', entry: '//html', container, retry: { times: 1 } }, { sandbox: false });
+  const [, { postProcessTemplate }] = mockedImportEntry.mock.calls[1];
+  expect(
+    postProcessTemplate({
+      scripts: ['//html/main.js', { src: '//html/async.js', async: true }],
+      styles: ['//html/main.css'],
+    }),
+  ).toMatchObject({
+    scripts: [
+      expect.stringMatching(/^\/\/html\/main\.js\?__qiankun_retry__=\d+_1$/),
+      { src: expect.stringMatching(/^\/\/html\/async\.js\?__qiankun_retry__=\d+_1$/), async: true },
+    ],
+    styles: [expect.stringMatching(/^\/\/html\/main\.css\?__qiankun_retry__=\d+_1$/)],
+  });
+});
+
+test('should render the fallback into container and replace it by a later successful mount', async () => {
+  mockedImportEntry.mockRejectedValue(new TypeError('Failed to fetch'));
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const fallback = jest.fn(({ error }: { error: Error }) => `<p class="fallback">${error.name}</p>`);
+
+  await expect(
+    loadApp({ name: 'fallbackApp', entry: '//fallback', container, fallback }, { sandbox: false }),
+  ).rejects.toThrow();
+  expect(fallback).toBeCalledWith({ container, error: expect.any(QiankunEntryFetchError) });
+  expect(container.innerHTML).toBe('<p class="fallback">QiankunEntryFetchError</p>');
+
+  mockedImportEntry.mockReset();
+  mockEntry();
+  const parcelConfig = (
+    await loadApp({ name: 'fallbackApp', entry: '//fallback', container, fallback }, { sandbox: false })
+  )();
+  await runLifecycles(parcelConfig.mount, { name: 'fallbackApp' });
+  expect(container.querySelector('.fallback')).toBeNull();
+  expect(container.querySelector('.app-content')).not.toBeNull();
+});
@@ -0,0 +1,69 @@
+import { QiankunError } from '../error';
+import { createMessageChannel } from '../messageChannel';
+
+describe('message channel', () => {
+  it('should broadcast or send messages to the specified namespace', () => {
+    const master = createMessageChannel();
+    const app1 = createMessageChannel('app1');
+    const app2 = createMessageChannel('app2');
+    const received: string[] = [];
+    app1.on('theme', (payload, { from }) => received.push(`app1:${payload}:${from}`));
+    app2.on('theme', (payload, { from }) => received.push(`app2:${payload}:${from}`));
+
+    master.emit('theme', 'dark');
+    expect(received).toEqual(['app1:dark:master', 'app2:dark:master']);
+
+    master.emit('theme', 'light', 'app2');
+    expect(received).toEqual(['app1:dark:master', 'app2:dark:master', 'app2:light:master']);
+
+    app1.destroy();
+    app2.destroy();
+  });
+
+  it('should reply the request with the value returned by the responder', async () => {
+    const master = createMessageChannel();
+    const app = createMessageChannel('app');
+    master.on('getToken', async (payload: { scope: string }, { from }) => `${from}-${payload.scope}-token`);
+
+    await expect(app.request('master', 'getToken', { scope: 'user' })).resolves.toBe('app-user-token');
+    await expect(app.request('app', 'getToken')).rejects.toThrow(QiankunError);
+
+    master.on('slow', () => new Promise(() => {}));
+    await expect(app.request('master', 'slow', undefined, { timeout: 10 })).rejects.toThrow('timeout after 10ms');
+
+    master.destroy();
+  });
+
+  it('should only remove the listeners of current instance while destroying', () => {
+    const instance1 = createMessageChannel('app', 'app_1');
+    const instance2 = createMessageChannel('app', 'app_2');
+    const master = createMessageChannel();
+    const listener1 = jest.fn();
+    const listener2 = jest.fn();
+    instance1.on('refresh', listener1);
+    const off = instance2.on('refresh', listener2);
+
+    instance1.destroy();
+    master.emit('refresh', 1, 'app');
+    expect(listener1).not.toHaveBeenCalled();
+    expect(listener2).toHaveBeenCalledWith(1, { from: 'master', topic: 'refresh' });
+
+    off();
+    master.emit('refresh', 2, 'app');
+    expect(listener2).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not remove the listeners of other master channels while destroying', () => {
+    const master1 = createMessageChannel();
+    const master2 = createMessageChannel();
+    const app = createMessageChannel('app');
+    const listener = jest.fn();
+    master2.on('logout', listener);
+
+    master1.destroy();
+    app.emit('logout', undefined, 'master');
+    expect(listener).toHaveBeenCalledWith(undefined, { from: 'app', topic: 'logout' });
+
+    master2.destroy();
+  });
+});
@@ -0,0 +1,43 @@
+import { createFetchRecorder, getAppPerformance, getSpansDuration, recordPerformanceEntry } from '../performance';
+import { sleep } from '../utils';
+
+test('should record the metrics by app instance', () => {
+  const onPerformanceEntry = jest.fn();
+
+  recordPerformanceEntry({ appName: 'react16', appInstanceId: 'react16_1', metric: 'entryFetch', duration: 10 });
+  recordPerformanceEntry(
+    { appName: 'react16', appInstanceId: 'react16_1', metric: 'mount', duration: 20 },
+    onPerformanceEntry,
+  );
+  recordPerformanceEntry({ appName: 'react16', appInstanceId: 'react16_2', metric: 'mount', duration: 30 });
+
+  expect(getAppPerformance('react16')).toEqual([
+    { appName: 'react16', appInstanceId: 'react16_1', entryFetch: 10, mount: 20 },
+    { appName: 'react16', appInstanceId: 'react16_2', mount: 30 },
+  ]);
+  expect(getAppPerformance('vue')).toEqual([]);
+  expect(onPerformanceEntry).toBeCalledWith({
+    appName: 'react16',
+    appInstanceId: 'react16_1',
+    metric: 'mount',
+    duration: 20,
+  });
+});
+
+test('should record the fetch spans including the body reading', async () => {
+  const mockFetch = jest.fn(async () => ({ text: () => sleep(20).then(() => 'text') } as any));
+  const recorder = createFetchRecorder(mockFetch);
+
+  const response = await (recorder.fetch as typeof window.fetch)('http://localhost/index.js');
+  await response.text();
+
+  const spans = recorder.take();
+  expect(spans.length).toBe(1);
+  expect(spans[0].url).toBe('http://localhost/index.js');
+  expect(getSpansDuration(spans)).toBeGreaterThanOrEqual(15);
+  expect(recorder.take()).toEqual([]);
+
+  // keep the fetch configuration shape
+  const { fetch } = createFetchRecorder({ fn: mockFetch, autoDecodeResponse: true });
+  expect(fetch).toMatchObject({ autoDecodeResponse: true });
+});
@@ -3,9 +3,11 @@ import {
   getDefaultTplWrapper,
   getWrapperId,
   getXPathForElement,
+  mergeAppConfiguration,
   nextTask,
   sleep,
   validateExportLifecycle,
+  withTimeout,
 } from '../utils';
 
 test('should wrap the id [1]', () => {
@@ -134,3 +136,65 @@ it('should nextTick just executed once in one task context', async () => {
   await sleep(0);
   expect(counter).toBe(3);
 });
+
+it('should reject with the timeout error while promise not settled in time', async () => {
+  const timeoutError = new Error('timeout');
+
+  await expect(withTimeout(sleep(50), 10, () => timeoutError)).rejects.toBe(timeoutError);
+  const done = () => sleep(10).then(() => 'done');
+  await expect(withTimeout(done(), 50, () => timeoutError)).resolves.toBe('done');
+
+  const rejectError = new Error('rejected');
+  await expect(withTimeout(Promise.reject(rejectError), 50, () => timeoutError)).rejects.toBe(rejectError);
+
+  // no limit while timeout not set
+  await expect(withTimeout(done(), undefined, () => timeoutError)).resolves.toBe('done');
+});
+
+it('should merge the app configuration over the framework one', () => {
+  const excludeAssetFilter = (url: string) => url.includes('jsonp');
+  const configuration = { sandbox: { experimentalStyleIsolation: true }, singular: true, prefetch: false };
+
+  expect(mergeAppConfiguration(configuration, {})).toEqual(configuration);
+  expect(
+    mergeAppConfiguration(configuration, { sandbox: { loose: true }, singular: false, excludeAssetFilter }),
+  ).toEqual({
+    sandbox: { experimentalStyleIsolation: true, loose: true },
+    singular: false,
+    prefetch: false,
+    excludeAssetFilter,
+  });
+  expect(mergeAppConfiguration(configuration, { sandbox: false }).sandbox).toBe(false);
+  expect(mergeAppConfiguration(configuration, { sandbox: true }).sandbox).toEqual({ experimentalStyleIsolation: true });
+  expect(mergeAppConfiguration({ sandbox: false }, { sandbox: true }).sandbox).toBe(true);
+  expect(mergeAppConfiguration({ sandbox: false }, { sandbox: { strictStyleIsolation: true } }).sandbox).toEqual({
+    strictStyleIsolation: true,
+  });
+  // the framework configuration should not be modified
+  expect(configuration.sandbox).toEqual({ experimentalStyleIsolation: true });
+});
+
+it('should degrade the sandbox of app and warn the non-singular one while Proxy not supported', () => {
+  const rawProxy = window.Proxy;
+  const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  // @ts-ignore
+  delete window.Proxy;
+
+  const configuration = { sandbox: { loose: true }, singular: true };
+  expect(mergeAppConfiguration(configuration, { sandbox: { audit: true } }).sandbox).toEqual({
+    loose: true,
+    audit: true,
+  });
+  expect(warnSpy).not.toBeCalled();
+
+  expect(mergeAppConfiguration(configuration, { singular: false }).sandbox).toEqual({ loose: true });
+  expect(warnSpy).toBeCalledTimes(1);
+  expect(mergeAppConfiguration(configuration, { sandbox: { cooperative: true }, singular: false }).sandbox).toEqual({
+    loose: true,
+    cooperative: true,
+  });
+  expect(warnSpy).toBeCalledTimes(1);
+
+  window.Proxy = rawProxy;
+  warnSpy.mockRestore();
+});
@@ -1,14 +1,24 @@
 import { noop } from 'lodash';
 import type { ParcelConfigObject } from 'single-spa';
-import { mountRootParcel, registerApplication, start as startSingleSpa } from 'single-spa';
+import { mountRootParcel, registerApplication, start as startSingleSpa, unregisterApplication } from 'single-spa';
 import type { ObjectType } from './interfaces';
 import type { FrameworkConfiguration, FrameworkLifeCycles, LoadableApp, MicroApp, RegistrableApp } from './interfaces';
+import { QiankunError } from './error';
 import type { ParcelConfigObjectGetter } from './loader';
 import { loadApp } from './loader';
 import { doPrefetchStrategy } from './prefetch';
-import { Deferred, getContainer, getXPathForElement, toArray } from './utils';
+import {
+  Deferred,
+  degradeSandboxWithoutProxy,
+  getContainer,
+  getXPathForElement,
+  mergeAppConfiguration,
+  toArray,
+} from './utils';
 
 let microApps: Array<RegistrableApp<Record<string, unknown>>> = [];
+// the framework lifecycles each app registered with, used to re-register it while updating
+const microAppLifeCyclesMap = new Map<string, FrameworkLifeCycles<any> | undefined>();
 
 // eslint-disable-next-line import/no-mutable-exports
 export let frameworkConfiguration: FrameworkConfiguration = {};
@@ -29,7 +39,8 @@ export function registerMicroApps<T extends ObjectType>(
 
   // 将需要注册的新应用，循环依次注册
   unregisteredApps.forEach((app) => {
-    const { name, activeRule, loader = noop, props, ...appConfig } = app;
+    const { name, activeRule, loader = noop, props, sandbox, excludeAssetFilter, singular, ...appConfig } = app;
+    microAppLifeCyclesMap.set(name, lifeCycles);
 
     // 实际还是调用 single-spa 的注册函数
     registerApplication({
@@ -40,7 +51,12 @@ export function registerMicroApps<T extends ObjectType>(
 
         const { mount, ...otherMicroAppConfigs } = (
           // 加载应用，获取生命周期钩子
-          await loadApp({ name, props, ...appConfig }, frameworkConfiguration, lifeCycles)
+          await loadApp(
+            { name, props, ...appConfig },
+            // the app level configurations take precedence over the framework ones
+            mergeAppConfiguration(frameworkConfiguration, { sandbox, excludeAssetFilter, singular }),
+            lifeCycles,
+          )
         )();
 
         // 调用 mount 
@@ -55,9 +71,51 @@ export function registerMicroApps<T extends ObjectType>(
   });
 }
 
-const appConfigPromiseGetterMap = new Map<string, Promise<ParcelConfigObjectGetter>>();
+// the lifecycles cached by loadMicroApp of each app, keyed by the container xpath, or empty while cached by app name
+const appConfigPromiseGetterMap = new Map<string, Map<string, Promise<ParcelConfigObjectGetter>>>();
 const containerMicroAppsMap = new Map<string, MicroApp[]>();
 
+/**
+ * 注销已注册的应用
+ * single-spa 会先卸载处于激活状态的应用，再清除其缓存的生命周期，沙箱随之在 unmount 时被还原
+ * @param names
+ */
+export async function unregisterMicroApps(names: string | string[]) {
+  const appNames = toArray(names);
+  const registeredApps = microApps.filter((app) => appNames.includes(app.name));
+
+  await Promise.all(registeredApps.map((app) => unregisterApplication(app.name)));
+
+  microApps = microApps.filter((app) => !registeredApps.includes(app));
+  registeredApps.forEach(({ name }) => {
+    microAppLifeCyclesMap.delete(name);
+
+    // drop the lifecycles cached by loadMicroApp, thus the next loading could fetch the latest entry
+    appConfigPromiseGetterMap.delete(name);
+  });
+}
+
+/**
+ * 更新已注册应用的配置，如 entry、activeRule 等
+ * 实际是以原有的生命周期重新注册一遍应用，若应用处于激活状态，将会以新配置重新挂载
+ * @param name
+ * @param patch
+ */
+export async function updateMicroApp<T extends ObjectType>(
+  name: string,
+  patch: Partial<Omit<RegistrableApp<T>, 'name'>>,
+) {
+  const registeredApp = microApps.find((app) => app.name === name);
+  if (!registeredApp) {
+    throw new QiankunError(`Can not update ${name} as it has not been registered!`);
+  }
+
+  const lifeCycles = microAppLifeCyclesMap.get(name);
+  await unregisterMicroApps(name);
+
+  registerMicroApps([{ ...registeredApp, ...patch, name } as RegistrableApp<T>], lifeCycles);
+}
+
 export function loadMicroApp<T extends ObjectType>(
   app: LoadableApp<T>,
   configuration?: FrameworkConfiguration,
@@ -121,17 +179,19 @@ export function loadMicroApp<T extends ObjectType>(
     const userConfiguration = configuration ?? { ...frameworkConfiguration, singular: false };
     const { $$cacheLifecycleByAppName } = userConfiguration;
     const container = 'container' in app ? app.container : undefined;
+    const appConfigPromiseGetters = appConfigPromiseGetterMap.get(name) || new Map();
+    appConfigPromiseGetterMap.set(name, appConfigPromiseGetters);
 
     if (container) {
       // using appName as cache for internal experimental scenario
       if ($$cacheLifecycleByAppName) {
-        const parcelConfigGetterPromise = appConfigPromiseGetterMap.get(name);
+        const parcelConfigGetterPromise = appConfigPromiseGetters.get('');
         if (parcelConfigGetterPromise) return wrapParcelConfigForRemount((await parcelConfigGetterPromise)(container));
       }
 
       const xpath = getContainerXpath(container);
       if (xpath) {
-        const parcelConfigGetterPromise = appConfigPromiseGetterMap.get(`${name}-${xpath}`);
+        const parcelConfigGetterPromise = appConfigPromiseGetters.get(xpath);
         if (parcelConfigGetterPromise) return wrapParcelConfigForRemount((await parcelConfigGetterPromise)(container));
       }
     }
@@ -140,10 +200,10 @@ export function loadMicroApp<T extends ObjectType>(
 
     if (container) {
       if ($$cacheLifecycleByAppName) {
-        appConfigPromiseGetterMap.set(name, parcelConfigObjectGetterPromise);
+        appConfigPromiseGetters.set('', parcelConfigObjectGetterPromise);
       } else {
         const xpath = getContainerXpath(container);
-        if (xpath) appConfigPromiseGetterMap.set(`${name}-${xpath}`, parcelConfigObjectGetterPromise);
+        if (xpath) appConfigPromiseGetters.set(xpath, parcelConfigObjectGetterPromise);
       }
     }
 
@@ -192,7 +252,6 @@ export function start(opts: FrameworkConfiguration = {}) {
   const {
     prefetch,
     sandbox,
-    singular,
     urlRerouteOnly = defaultUrlRerouteOnly,
     ...importEntryOpts
   } = frameworkConfiguration;
@@ -203,16 +262,10 @@ export function start(opts: FrameworkConfiguration = {}) {
 
   // 开启沙箱
   if (sandbox) {
-    // 如果不支持 Proxy 则降级到快照沙箱 loose 表示使用快照沙箱
+    // 如果不支持 Proxy 则降级到快照沙箱，非单例模式的提示在合并应用配置时检查
     if (!window.Proxy) {
       console.warn('[qiankun] Miss window.Proxy, proxySandbox will degenerate into snapshotSandbox');
-      frameworkConfiguration.sandbox = typeof sandbox === 'object' ? { ...sandbox, loose: true } : { loose: true };
-      // Proxy 下若为非单例模式 则会报错
-      if (!singular) {
-        console.warn(
-          '[qiankun] Setting singular as false may cause unexpected behavior while your browser not support window.Proxy',
-        );
-      }
+      frameworkConfiguration = degradeSandboxWithoutProxy(frameworkConfiguration);
     }
   }
 
@@ -1,5 +1,89 @@
+import type { LifeCyclePhase } from './interfaces';
+
+export type QiankunErrorDetail = {
+  appName?: string;
+  appInstanceId?: string;
+  phase?: LifeCyclePhase;
+  // the original error which caused this one
+  cause?: unknown;
+};
+
 export class QiankunError extends Error {
-  constructor(message: string) {
+  appName?: string;
+
+  appInstanceId?: string;
+
+  phase?: LifeCyclePhase;
+
+  cause?: unknown;
+
+  constructor(message: string, detail: QiankunErrorDetail = {}) {
     super(`[qiankun]: ${message}`);
+    // assign the name explicitly as the class name would be mangled after minified
+    this.name = 'QiankunError';
+    this.appName = detail.appName;
+    this.appInstanceId = detail.appInstanceId;
+    this.phase = detail.phase;
+    this.cause = detail.cause;
+  }
+}
+
+export class QiankunTimeoutError extends QiankunError {
+  timeout: number;
+
+  constructor(timeout: number, detail: QiankunErrorDetail & { appName: string; phase: LifeCyclePhase }) {
+    super(`${detail.appName} ${detail.phase} timeout after ${timeout}ms!`, detail);
+    this.name = 'QiankunTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * the entry html or its external assets fetch failed
+ */
+export class QiankunEntryFetchError extends QiankunError {
+  constructor(message: string, detail: QiankunErrorDetail = {}) {
+    super(message, detail);
+    this.name = 'QiankunEntryFetchError';
+  }
+}
+
+/**
+ * the scripts of app threw while evaluating
+ */
+export class QiankunScriptEvaluationError extends QiankunError {
+  constructor(message: string, detail: QiankunErrorDetail = {}) {
+    super(message, detail);
+    this.name = 'QiankunScriptEvaluationError';
+  }
+}
+
+/**
+ * bootstrap/mount/unmount lifecycles not found from app exports
+ */
+export class QiankunLifecycleNotFoundError extends QiankunError {
+  constructor(message: string, detail: QiankunErrorDetail = {}) {
+    super(message, detail);
+    this.name = 'QiankunLifecycleNotFoundError';
+  }
+}
+
+/**
+ * the container or app wrapper element is not existed while rendering
+ */
+export class QiankunContainerNotFoundError extends QiankunError {
+  constructor(message: string, detail: QiankunErrorDetail = {}) {
+    super(message, detail);
+    this.name = 'QiankunContainerNotFoundError';
+  }
+}
+
+/**
+ * app code did something the sandbox forbids
+ */
+export class QiankunSandboxViolationError extends QiankunError {
+  constructor(message: string, detail: QiankunErrorDetail = {}) {
+    super(message, detail);
+    this.name = 'QiankunSandboxViolationError';
   }
 }
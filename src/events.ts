@@ -0,0 +1,65 @@
+import type { QiankunEvent, QiankunEventListener, QiankunEventType } from './interfaces';
+
+type WildcardType = '*';
+
+/**
+ * 框架级别的事件总线，用于分析、调试、日志等横切工具一次订阅即可观测所有应用
+ */
+class QiankunEventEmitter {
+  private listenersMap = new Map<QiankunEventType | WildcardType, QiankunEventListener[]>();
+
+  /**
+   * 订阅事件，type 为 * 时订阅所有事件
+   * @param type
+   * @param listener
+   * @return 取消订阅函数
+   */
+  on(type: QiankunEventType | WildcardType, listener: QiankunEventListener) {
+    const listeners = this.listenersMap.get(type) || [];
+    this.listenersMap.set(type, [...listeners, listener]);
+
+    return () => this.off(type, listener);
+  }
+
+  once(type: QiankunEventType | WildcardType, listener: QiankunEventListener) {
+    const off = this.on(type, (event) => {
+      off();
+      listener(event);
+    });
+
+    return off;
+  }
+
+  off(type: QiankunEventType | WildcardType, listener?: QiankunEventListener) {
+    if (!listener) {
+      this.listenersMap.delete(type);
+      return;
+    }
+
+    const listeners = this.listenersMap.get(type);
+    if (listeners) {
+      this.listenersMap.set(
+        type,
+        listeners.filter((l) => l !== listener),
+      );
+    }
+  }
+
+  emit(type: QiankunEventType, payload: Omit<QiankunEvent, 'type' | 'timestamp'>) {
+    const event: QiankunEvent = { ...payload, type, timestamp: Date.now() };
+    const listeners = [...(this.listenersMap.get(type) || []), ...(this.listenersMap.get('*') || [])];
+
+    listeners.forEach((listener) => {
+      // a broken subscriber should never break the app loading
+      try {
+        listener(event);
+      } catch (e) {
+        console.error(`[qiankun] listener of ${type} threw an error`, e);
+      }
+    });
+  }
+}
+
+export type { QiankunEventEmitter };
+
+export const qiankunEvents = new QiankunEventEmitter();
@@ -3,13 +3,239 @@
  * @since 2020-04-10
  */
 
-import { cloneDeep } from 'lodash';
-import type { OnGlobalStateChangeCallback, MicroAppStateActions } from './interfaces';
+import { cloneDeep, isEqual, pick } from 'lodash';
+import type {
+  GlobalStateOptions,
+  GlobalStatePersistOptions,
+  GlobalStateRejectReason,
+  GlobalStateSchema,
+  GlobalStateSchemaType,
+  GlobalStateSelector,
+  GlobalStateStorage,
+  GlobalStateSubscribeOptions,
+  GlobalStateValidator,
+  OnGlobalStateChangeCallback,
+  OnGlobalStateSliceChangeCallback,
+  MicroAppStateActions,
+  SetGlobalStateResult,
+} from './interfaces';
 
 let globalState: Record<string, any> = {};
 
+let globalStateOptions: GlobalStateOptions = {};
+
 const deps: Record<string, OnGlobalStateChangeCallback> = {};
 
+type SliceDep = {
+  select: (state: Record<string, any>) => any;
+  callback: OnGlobalStateSliceChangeCallback;
+  isEqual: (slice: any, prevSlice: any) => boolean;
+};
+
+// 局部状态监听，每个应用可以有多个
+const sliceDeps: Record<string, SliceDep[]> = {};
+
+function shallowEqual(a: any, b: any) {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every((key) => b.hasOwnProperty(key) && Object.is(a[key], b[key]));
+}
+
+function getSelect(selector: GlobalStateSelector) {
+  if (typeof selector === 'function') return selector;
+  if (Array.isArray(selector)) return (state: Record<string, any>) => pick(state, selector);
+  return (state: Record<string, any>) => state[selector];
+}
+
+function getIsEqual(equality: GlobalStateSubscribeOptions['equality'] = 'shallow') {
+  if (typeof equality === 'function') return equality;
+  return equality === 'deep' ? isEqual : shallowEqual;
+}
+
+function getSchemaType(value: any): GlobalStateSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as GlobalStateSchemaType | 'undefined';
+}
+
+/**
+ * 按 schema 校验，返回错误信息，校验通过时返回 undefined
+ * @param value
+ * @param schema
+ * @param path
+ */
+function validateSchema(value: any, schema: GlobalStateSchema, path: string): string | undefined {
+  const { type, enum: enumValues, required = [], properties, items } = schema;
+  const valueType = getSchemaType(value);
+
+  if (type && !(Array.isArray(type) ? type : [type]).includes(valueType as GlobalStateSchemaType)) {
+    return `'${path}' should be ${type} but got ${valueType}`;
+  }
+
+  if (enumValues && !enumValues.includes(value)) {
+    return `'${path}' should be one of ${JSON.stringify(enumValues)}`;
+  }
+
+  if (valueType === 'object') {
+    const missingProp = required.find((prop) => !value.hasOwnProperty(prop));
+    if (missingProp) {
+      return `'${path}.${missingProp}' is required`;
+    }
+
+    if (properties) {
+      const propPaths = Object.keys(properties).filter((prop) => value.hasOwnProperty(prop));
+      for (let i = 0; i < propPaths.length; i++) {
+        const prop = propPaths[i];
+        const message = validateSchema(value[prop], properties[prop], `${path}.${prop}`);
+        if (message) return message;
+      }
+    }
+  }
+
+  if (valueType === 'array' && items) {
+    for (let i = 0; i < value.length; i++) {
+      const message = validateSchema(value[i], items, `${path}[${i}]`);
+      if (message) return message;
+    }
+  }
+
+  return undefined;
+}
+
+function validate(key: string, value: any, validator: GlobalStateValidator): string | undefined {
+  if (typeof validator === 'function') {
+    const result = validator(value);
+    if (result === true) return undefined;
+    return typeof result === 'string' ? result : `'${key}' is invalid`;
+  }
+
+  return validateSchema(value, validator, key);
+}
+
+const defaultPersistName = '__qiankun_global_state__';
+
+function getPersistStorage({ storage = 'localStorage' }: GlobalStatePersistOptions): GlobalStateStorage | null {
+  if (typeof storage !== 'string') return storage;
+
+  try {
+    return window[storage];
+  } catch (e) {
+    // accessing storage might throw a SecurityError while cookies disabled
+    return null;
+  }
+}
+
+/**
+ * 丢弃未通过 schema 校验的持久化状态，存储中的值可能被篡改或来自旧的 schema
+ * @param state
+ * @param schema
+ */
+function dropInvalidState(state: Record<string, any>, schema: Record<string, GlobalStateValidator> = {}) {
+  return Object.keys(state).reduce<Record<string, any>>((validState, key) => {
+    const errorMessage = schema[key] && validate(key, state[key], schema[key]);
+    if (errorMessage) {
+      console.warn(`[qiankun] persisted global state is dropped: ${errorMessage}`);
+      return validState;
+    }
+
+    return Object.assign(validState, { [key]: state[key] });
+  }, {});
+}
+
+/**
+ * 读取持久化的状态，版本不一致时进行迁移，没有迁移函数则丢弃
+ * @param persistOptions
+ */
+function rehydrateGlobalState(persistOptions: GlobalStatePersistOptions): Record<string, any> {
+  const { keys, name = defaultPersistName, version = 0, migrate } = persistOptions;
+  const storage = getPersistStorage(persistOptions);
+
+  try {
+    const persisted = storage?.getItem(name);
+    if (!persisted) return {};
+
+    const { version: persistedVersion = 0, state } = JSON.parse(persisted);
+    if (persistedVersion === version) return pick(state, keys);
+
+    return migrate ? pick(migrate(state, persistedVersion), keys) : {};
+  } catch (e) {
+    console.warn('[qiankun] rehydrate global state failed!', e);
+    return {};
+  }
+}
+
+function persistGlobalState(state: Record<string, any>) {
+  const { persist } = globalStateOptions;
+  if (!persist) return;
+
+  const { keys, name = defaultPersistName, version = 0 } = persist;
+  const storage = getPersistStorage(persist);
+
+  try {
+    storage?.setItem(name, JSON.stringify({ version, state: pick(state, keys) }));
+  } catch (e) {
+    console.warn('[qiankun] persist global state failed!', e);
+  }
+}
+
+type SyncMessage = { version: number; origin: string; state: Record<string, any> };
+type SyncTransport = { post: (message: SyncMessage) => void; close: () => void };
+
+const defaultSyncName = '__qiankun_global_state_sync__';
+const tabId = `${+new Date()}_${Math.floor(Math.random() * 100000)}`;
+// hybrid logical clock across tabs, every write takes the current time or the version after the latest one it has seen
+// so that the writes of a newly opened tab would not be taken as stale by the others
+let stateVersion = 0;
+// the version and origin tab of the latest write of each key, the conflicts are resolved key by key
+let keyClocks: Record<string, { version: number; origin: string }> = {};
+let syncTransport: SyncTransport | null = null;
+
+function tickStateVersion() {
+  stateVersion = Math.max(Date.now(), stateVersion + 1);
+  return stateVersion;
+}
+
+function isNewerWrite(key: string, version: number, origin: string) {
+  const clock = keyClocks[key];
+  return !clock || version > clock.version || (version === clock.version && origin > clock.origin);
+}
+
+function createSyncTransport(name: string, onMessage: (message: SyncMessage) => void): SyncTransport {
+  if (typeof BroadcastChannel === 'function') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent) => onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  // storage event only fired in the other tabs, that's exactly what we want
+  const listener = (event: StorageEvent) => {
+    if (event.key === name && event.newValue) {
+      try {
+        onMessage(JSON.parse(event.newValue));
+      } catch (e) {
+        console.warn('[qiankun] invalid global state sync message!', e);
+      }
+    }
+  };
+  window.addEventListener('storage', listener);
+  return {
+    post: (message) => {
+      try {
+        localStorage.setItem(name, JSON.stringify(message));
+      } catch (e) {
+        console.warn('[qiankun] sync global state failed!', e);
+      }
+    },
+    close: () => window.removeEventListener('storage', listener),
+  };
+}
+
 // 触发全局监听
 function emitGlobal(state: Record<string, any>, prevState: Record<string, any>) {
   Object.keys(deps).forEach((id: string) => {
@@ -17,90 +243,213 @@ function emitGlobal(state: Record<string, any>, prevState: Record<string, any>)
       deps[id](cloneDeep(state), cloneDeep(prevState));
     }
   });
+
+  // 只有选中的局部状态变更时才触发
+  Object.keys(sliceDeps).forEach((id: string) => {
+    [...sliceDeps[id]].forEach(({ select, callback, isEqual: isSliceEqual }) => {
+      const slice = select(state);
+      const prevSlice = select(prevState);
+      if (!isSliceEqual(slice, prevSlice)) {
+        callback(cloneDeep(slice), cloneDeep(prevSlice));
+      }
+    });
+  });
 }
 
-export function initGlobalState(state: Record<string, any> = {}) {
+/**
+ * 回放其他标签页主应用的修改
+ * 逐个属性比较，版本号更大的修改胜出，版本号相同时以标签页 id 决定，保证各标签页最终一致
+ * @param message
+ */
+function replaySyncMessage({ version, origin, state }: SyncMessage) {
+  stateVersion = Math.max(stateVersion, version);
+
+  const acceptedKeys = Object.keys(state).filter((key) => isNewerWrite(key, version, origin));
+  if (acceptedKeys.length === 0) {
+    return;
+  }
+
+  acceptedKeys.forEach((key) => {
+    keyClocks[key] = { version, origin };
+  });
+  const prevGlobalState = cloneDeep(globalState);
+  globalState = cloneDeep({ ...globalState, ...pick(state, acceptedKeys) });
+  emitGlobal(globalState, prevGlobalState);
+}
+
+/**
+ * 初始化全局状态，只有主应用能调用
+ * @param state
+ * @param options 状态 key 的校验规则及写权限
+ */
+export function initGlobalState(state: Record<string, any> = {}, options: GlobalStateOptions = {}) {
+  globalStateOptions = options;
+
+  syncTransport?.close();
+  syncTransport = null;
+  keyClocks = {};
+  if (options.sync) {
+    const { name = defaultSyncName } = typeof options.sync === 'object' ? options.sync : {};
+    syncTransport = createSyncTransport(name, replaySyncMessage);
+  }
+
   if (state === globalState) {
     console.warn('[qiankun] state has not changed！');
   } else {
     const prevGlobalState = cloneDeep(globalState);
-    globalState = cloneDeep(state);
+    // the persisted keys should be restored before any listener fired
+    const persistedState = options.persist
+      ? dropInvalidState(rehydrateGlobalState(options.persist), options.schema)
+      : {};
+    globalState = cloneDeep({ ...state, ...persistedState });
+    persistGlobalState(globalState);
     emitGlobal(globalState, prevGlobalState);
   }
   return getMicroAppStateActions(`global-${+new Date()}`, true);
 }
 
-export function getMicroAppStateActions(id: string, isMaster?: boolean): MicroAppStateActions {
-  return {
-    /**
-     * onGlobalStateChange 全局依赖监听
-     *
-     * 收集 setState 时所需要触发的依赖
-     *
-     * 限制条件：每个子应用只有一个激活状态的全局监听，新监听覆盖旧监听，若只是监听部分属性，请使用 onGlobalStateChange
-     *
-     * 这么设计是为了减少全局监听滥用导致的内存爆炸
-     *
-     * 依赖数据结构为：
-     * {
-     *   {id}: callback
-     * }
-     *
-     * @param callback
-     * @param fireImmediately
-     */
-    onGlobalStateChange(callback: OnGlobalStateChangeCallback, fireImmediately?: boolean) {
-      if (!(callback instanceof Function)) {
-        console.error('[qiankun] callback must be function!');
-        return;
-      }
-      if (deps[id]) {
-        console.warn(`[qiankun] '${id}' global listener already exists before this, new listener will overwrite it.`);
-      }
-      deps[id] = callback;
-      if (fireImmediately) {
-        const cloneState = cloneDeep(globalState);
-        callback(cloneState, cloneState);
+export function getMicroAppStateActions(id: string, isMaster?: boolean, appName = id): MicroAppStateActions {
+  /**
+   * onGlobalStateChange 全局依赖监听
+   *
+   * 收集 setState 时所需要触发的依赖
+   *
+   * 限制条件：每个子应用只有一个激活状态的全局监听，新监听覆盖旧监听，若只是监听部分属性，请使用 onGlobalStateChange
+   *
+   * 这么设计是为了减少全局监听滥用导致的内存爆炸
+   *
+   * 依赖数据结构为：
+   * {
+   *   {id}: callback
+   * }
+   *
+   * 若传入 selector，则为局部状态监听：
+   * 1. selector 可以是第一层 key、key 数组或选择函数，只有选中的状态变更时（默认浅比较）才会触发
+   * 2. 每个应用可以有多个局部监听，返回值用于注销该监听
+   *
+   * @param callbackOrSelector
+   * @param fireImmediatelyOrCallback
+   * @param options
+   */
+  function onGlobalStateChange(callback: OnGlobalStateChangeCallback, fireImmediately?: boolean): void;
+  function onGlobalStateChange<S>(
+    selector: GlobalStateSelector<S>,
+    callback: OnGlobalStateSliceChangeCallback<S>,
+    options?: GlobalStateSubscribeOptions,
+  ): () => void;
+  function onGlobalStateChange(
+    callbackOrSelector: OnGlobalStateChangeCallback | GlobalStateSelector,
+    fireImmediatelyOrCallback?: boolean | OnGlobalStateSliceChangeCallback,
+    options: GlobalStateSubscribeOptions = {},
+  ): (() => void) | void {
+    if (typeof fireImmediatelyOrCallback === 'function') {
+      const select = getSelect(callbackOrSelector as GlobalStateSelector);
+      const sliceDep: SliceDep = {
+        select,
+        callback: fireImmediatelyOrCallback,
+        isEqual: getIsEqual(options.equality),
+      };
+      sliceDeps[id] = [...(sliceDeps[id] || []), sliceDep];
+
+      if (options.fireImmediately) {
+        const cloneSlice = cloneDeep(select(globalState));
+        fireImmediatelyOrCallback(cloneSlice, cloneSlice);
       }
-    },
+
+      return function unsubscribe() {
+        if (sliceDeps[id]) {
+          sliceDeps[id] = sliceDeps[id].filter((dep) => dep !== sliceDep);
+        }
+      };
+    }
+
+    const callback = callbackOrSelector as OnGlobalStateChangeCallback;
+    const fireImmediately = fireImmediatelyOrCallback;
+    if (!(callback instanceof Function)) {
+      console.error('[qiankun] callback must be function!');
+      return;
+    }
+    if (deps[id]) {
+      console.warn(`[qiankun] '${id}' global listener already exists before this, new listener will overwrite it.`);
+    }
+    deps[id] = callback;
+    if (fireImmediately) {
+      const cloneState = cloneDeep(globalState);
+      callback(cloneState, cloneState);
+    }
+  }
+
+  return {
+    onGlobalStateChange,
 
     /**
      * setGlobalState 更新 store 数据
      *
      * 1. 对输入 state 的第一层属性做校验，只有初始化时声明过的第一层（bucket）属性才会被更改
-     * 2. 修改 store 并触发全局监听
+     * 2. 子应用只能修改有写权限的属性，且属性值需要通过 schema 校验
+     * 3. 修改 store 并触发全局监听
+     *
+     * 返回修改成功及被拒绝的属性
      *
      * @param state
      */
-    setGlobalState(state: Record<string, any> = {}) {
+    setGlobalState(state: Record<string, any> = {}): SetGlobalStateResult {
       if (state === globalState) {
         console.warn('[qiankun] state has not changed！');
-        return false;
+        return { success: false, changedKeys: [], rejectedKeys: [] };
       }
 
+      const { schema = {}, permissions = {} } = globalStateOptions;
       const changeKeys: string[] = [];
+      const rejectedKeys: SetGlobalStateResult['rejectedKeys'] = [];
+      const reject = (key: string, reason: GlobalStateRejectReason, message: string) => {
+        console.warn(`[qiankun] ${message}！`);
+        rejectedKeys.push({ key, reason, message });
+      };
+
       const prevGlobalState = cloneDeep(globalState);
       globalState = cloneDeep(
         Object.keys(state).reduce((_globalState, changeKey) => {
-          if (isMaster || _globalState.hasOwnProperty(changeKey)) {
-            changeKeys.push(changeKey);
-            return Object.assign(_globalState, { [changeKey]: state[changeKey] });
+          if (!isMaster && !_globalState.hasOwnProperty(changeKey)) {
+            reject(changeKey, 'undeclared', `'${changeKey}' not declared when init state`);
+            return _globalState;
           }
-          console.warn(`[qiankun] '${changeKey}' not declared when init state！`);
-          return _globalState;
+
+          if (!isMaster && permissions[changeKey] && !permissions[changeKey].includes(appName)) {
+            reject(changeKey, 'forbidden', `'${appName}' has no permission to write '${changeKey}'`);
+            return _globalState;
+          }
+
+          const errorMessage = schema[changeKey] && validate(changeKey, state[changeKey], schema[changeKey]);
+          if (errorMessage) {
+            reject(changeKey, 'invalid', errorMessage);
+            return _globalState;
+          }
+
+          changeKeys.push(changeKey);
+          return Object.assign(_globalState, { [changeKey]: state[changeKey] });
         }, globalState),
       );
       if (changeKeys.length === 0) {
         console.warn('[qiankun] state has not changed！');
-        return false;
+        return { success: false, changedKeys: changeKeys, rejectedKeys };
+      }
+      persistGlobalState(globalState);
+      if (isMaster && syncTransport) {
+        const version = tickStateVersion();
+        changeKeys.forEach((key) => {
+          keyClocks[key] = { version, origin: tabId };
+        });
+        syncTransport.post({ version, origin: tabId, state: pick(globalState, changeKeys) });
       }
       emitGlobal(globalState, prevGlobalState);
-      return true;
+      return { success: rejectedKeys.length === 0, changedKeys: changeKeys, rejectedKeys };
     },
 
     // 注销该应用下的依赖
     offGlobalStateChange() {
       delete deps[id];
+      delete sliceDeps[id];
       return true;
     },
   };
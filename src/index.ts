@@ -3,9 +3,14 @@
  * @since 2019-04-25
  */
 
-export { loadMicroApp, registerMicroApps, start } from './apis';
+export { loadMicroApp, registerMicroApps, start, unregisterMicroApps, updateMicroApp } from './apis';
 export { initGlobalState } from './globalState';
+export * from './error';
+export { qiankunEvents } from './events';
+export { createMessageChannel } from './messageChannel';
+export { getAppPerformance } from './performance';
 export * from './errorHandler';
 export * from './effects';
 export * from './interfaces';
 export { prefetchImmediately as prefetchApps } from './prefetch';
+export { getSandboxReport } from './sandbox/audit';
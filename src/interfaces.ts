@@ -34,9 +34,46 @@ export type AppMetadata = {
   entry: Entry;
 };
 
+/**
+ * timeout in milliseconds of each loading phase, the phase would be rejected with a QiankunTimeoutError once exceeded
+ */
+export type LifeCycleTimeouts = {
+  // the whole of entry fetching and scripts evaluating, the time waiting for the previous app unmounting is excluded
+  load?: number;
+  bootstrap?: number;
+  mount?: number;
+  // the framework will keep routing even if the app unmount timeout
+  unmount?: number;
+};
+
+export type LifeCyclePhase = keyof LifeCycleTimeouts;
+
+// the fallback html content could be returned, or render it to container manually
+export type FallbackRender = (props: { container: HTMLElement | null; error: Error }) => string | void;
+
+export type RetryOptions = {
+  // max retry times while the entry fetching or scripts evaluating failed
+  times: number;
+  // milliseconds to wait before next retry, the function receives the retry attempt which starts from 1
+  backoff?: number | ((attempt: number) => number);
+};
+
+/**
+ * browser: share the location and history with master
+ * memory: virtual location and history backed by an in-memory stack, the url of browser never changed
+ * hash-segment: virtual location and history backed by a query segment of browser url, thus it could be restored after reload
+ * as the segment is keyed by app name, only one instance of the app could be mounted at the same time in hash-segment mode
+ * only the proxy based strict sandboxes support the virtual routing modes
+ */
+export type RoutingMode = 'browser' | 'memory' | 'hash-segment';
+
 // just for manual loaded apps, in single-spa it called parcel
 export type LoadableApp<T extends ObjectType> = AppMetadata & {
   /* props pass through to app */ props?: T;
+  /* override the framework timeouts for this app */ timeouts?: LifeCycleTimeouts;
+  /* rendered to container while app load failed */ fallback?: string | FallbackRender;
+  /* retry loading app with fresh assets */ retry?: RetryOptions;
+  /* let the app instances have their own location and history */ routingMode?: RoutingMode;
 } & (
     | {
         // legacy mode, the render function all handled by user
@@ -52,7 +89,10 @@ export type LoadableApp<T extends ObjectType> = AppMetadata & {
 export type RegistrableApp<T extends ObjectType> = LoadableApp<T> & {
   loader?: (loading: boolean) => void;
   activeRule: RegisterApplicationConfig['activeWhen'];
-};
+} & AppConfiguration;
+
+// the app level configurations which are merged over the framework ones, the sandbox options (including style isolation) are merged key by key
+export type AppConfiguration = Pick<FrameworkConfiguration, 'sandbox' | 'excludeAssetFilter' | 'singular'>;
 
 export type PrefetchStrategy =
   | boolean
@@ -60,23 +100,144 @@ export type PrefetchStrategy =
   | string[]
   | ((apps: AppMetadata[]) => { criticalAppNames: string[]; minorAppsName: string[] });
 
+export type AppPerformanceMetric =
+  // entry html fetching, including the external stylesheets embedding
+  | 'entryFetch'
+  // external stylesheets fetching
+  | 'styleFetch'
+  // external scripts fetching
+  | 'scriptFetch'
+  | 'scriptEvaluation'
+  | 'bootstrap'
+  | 'mount';
+
+export type AppPerformanceEntry = {
+  appName: string;
+  appInstanceId: string;
+  metric: AppPerformanceMetric;
+  // milliseconds
+  duration: number;
+};
+
+export type AppPerformance = { appName: string; appInstanceId: string } & Partial<Record<AppPerformanceMetric, number>>;
+
+export type StorageIsolationConfiguration = {
+  /**
+   * the storage keys and database names which are shared with master and the other apps
+   */
+  sharedKeys?: string[];
+};
+
+export type SandboxGlobalsConfiguration = {
+  // the globals written to the real window directly, such as the analytics sdk shared with master
+  shared?: string[];
+  // the globals which never fall through to the real window, such as the plugin registries of jQuery
+  isolated?: string[];
+  // the globals which could not be written, deleted or defined by app
+  readonly?: string[];
+  // throw an error while app writing the readonly globals, otherwise a warning is logged
+  throwOnReadonlyWrite?: boolean;
+};
+
+export type SandboxConfiguration = {
+  strictStyleIsolation?: boolean;
+  experimentalStyleIsolation?: boolean;
+  /**
+   * @deprecated We use strict mode by default
+   */
+  loose?: boolean;
+  /**
+   * run scripts in a hidden same-origin iframe with isolated intrinsics, and scope the document to app container
+   */
+  iframe?: boolean;
+  /**
+   * scope the document queries and body/head insertions to app container, and virtualise document.title
+   */
+  documentIsolation?: boolean;
+  /**
+   * pause the pending timers of app while unmounting and resume them at next mounting, otherwise they are cancelled
+   * the timers are only tracked in strict sandboxes, as the global of loose sandbox is shared with master
+   */
+  pauseTimersOnUnmount?: boolean;
+  /**
+   * namespace the localStorage, sessionStorage and indexedDB of app with its name
+   */
+  storageIsolation?: boolean | StorageIsolationConfiguration;
+  /**
+   * record the global properties read from the real window, written, deleted or defined by app, see getSandboxReport
+   */
+  audit?: boolean;
+  /**
+   * revert the mutations of the shared intrinsics (such as Array.prototype) made by app while sandbox inactive
+   * with block mode, the mutations through Object and Reflect apis are blocked with a warning during execution,
+   * but the app reads a guarded Object instead of the real one then, thus ({}).constructor === Object would be false
+   */
+  protectIntrinsics?: boolean | { block?: boolean };
+  /**
+   * for the browsers without Proxy, serialise the script execution and lifecycle calls of apps in snapshot sandbox,
+   * thus multiple apps could be loaded at the same time
+   */
+  cooperative?: boolean;
+  /**
+   * the globals shared with master, isolated in sandbox or readonly for app in proxy sandbox
+   */
+  globals?: SandboxGlobalsConfiguration;
+  patchers?: Patcher[];
+};
+
+export type SandboxAuditOperation = 'read' | 'write' | 'delete' | 'define';
+
+export type SandboxAuditRecord = {
+  operation: SandboxAuditOperation;
+  property: string;
+  count: number;
+  // the call stack while the property accessed at the first time
+  stack: string;
+};
+
+export type SandboxReport = {
+  appName: string;
+  records: SandboxAuditRecord[];
+};
+
+export type NetworkRequestType = 'fetch' | 'xhr' | 'websocket' | 'eventsource';
+
+export type NetworkRequest = {
+  appName: string;
+  type: NetworkRequestType;
+  // resolved with the baseURL of app
+  url: string;
+  method?: string;
+  // headers to be added to the fetch and xhr requests
+  headers: Record<string, string>;
+};
+
+export type NetworkConfiguration = {
+  // resolve the relative request urls of app, could be specified per app with a map keyed by app name
+  baseURL?: string | Record<string, string>;
+  // modify the request before sending, such as adding the auth headers
+  requestInterceptor?: (request: NetworkRequest) => NetworkRequest | void;
+  // abort the pending fetch and xhr requests, close the websockets and event sources while app unmounting
+  abortOnUnmount?: boolean;
+};
+
+export type CookieIsolationConfiguration = {
+  // declare the unprefixed cookies which could be read by app, such as the auth cookies of master
+  readableCookieFilter?: (cookieName: string, appName: string) => boolean;
+};
+
+// the sandbox configuration combined with the app level options and the framework options the patchers required
+export type AppSandboxConfiguration = SandboxConfiguration &
+  Pick<LoadableApp<any>, 'routingMode'> &
+  Pick<FrameworkConfiguration, 'network' | 'cookieIsolation'>;
+
 type QiankunSpecialOpts = {
   /**
    * @deprecated internal api, don't used it as normal, might be removed after next version
    */
   $$cacheLifecycleByAppName?: boolean;
   prefetch?: PrefetchStrategy;
-  sandbox?:
-    | boolean
-    | {
-        strictStyleIsolation?: boolean;
-        experimentalStyleIsolation?: boolean;
-        /**
-         * @deprecated We use strict mode by default
-         */
-        loose?: boolean;
-        patchers?: Patcher[];
-      };
+  sandbox?: boolean | SandboxConfiguration;
   /*
     with singular mode, any app will wait to load until other apps are unmouting
     it is useful for the scenario that only one sub app shown at one time
@@ -86,6 +247,22 @@ type QiankunSpecialOpts = {
    * skip some scripts or links intercept, like JSONP
    */
   excludeAssetFilter?: (url: string) => boolean;
+  /**
+   * default timeouts for every app loading phase, no limit if not set
+   */
+  timeouts?: LifeCycleTimeouts;
+  /**
+   * report the performance metrics of every app instance, such as sending to real-user monitoring
+   */
+  onPerformanceEntry?: (entry: AppPerformanceEntry) => void;
+  /**
+   * intercept and scope the network requests of apps in strict sandbox
+   */
+  network?: NetworkConfiguration;
+  /**
+   * virtualise the document.cookie of apps in strict sandbox, the cookie names written by app are prefixed with its name
+   */
+  cookieIsolation?: boolean | CookieIsolationConfiguration;
 };
 export type FrameworkConfiguration = QiankunSpecialOpts & ImportEntryOpts & StartOpts;
 
@@ -111,6 +288,9 @@ export enum SandBoxType {
   // for legacy sandbox
   // https://github.com/umijs/qiankun/blob/0d1d3f0c5ed1642f01854f96c3fabf0a2148bd26/src/sandbox/legacy/sandbox.ts#L22...L25
   LegacyProxy = 'LegacyProxy',
+
+  // run scripts in a hidden same-origin iframe, for the untrusted apps
+  Iframe = 'Iframe',
 }
 
 export type SandBox = {
@@ -128,12 +308,133 @@ export type SandBox = {
   active: () => void;
   /** 关闭沙箱 */
   inactive: () => void;
+  /** 在沙箱自己的 realm 中执行脚本，不存在时脚本在当前 realm 中执行 */
+  evaluate?: (code: string, src: string) => void;
+  /** 销毁沙箱，释放沙箱持有的资源（如 iframe），销毁后沙箱不可再被使用 */
+  destroy?: () => void;
+  /** 串行调度应用的脚本执行与生命周期调用，不存在时直接调用 */
+  schedule?: <T>(task: () => Promise<T>) => Promise<T>;
+};
+
+export type QiankunEventType =
+  | 'app:before-load'
+  | 'app:loaded'
+  | 'app:before-mount'
+  | 'app:mounted'
+  | 'app:before-unmount'
+  | 'app:unmounted'
+  | 'app:error'
+  | 'sandbox:activated'
+  | 'sandbox:deactivated';
+
+export type QiankunEvent = {
+  type: QiankunEventType;
+  appName: string;
+  appInstanceId?: string;
+  timestamp: number;
+  // milliseconds the phase consumed, only for the events which represent a phase finished
+  duration?: number;
+  // which phase the error occurred, only for app:error
+  phase?: LifeCyclePhase;
+  error?: Error;
 };
 
+export type QiankunEventListener = (event: QiankunEvent) => void;
+
 export type OnGlobalStateChangeCallback = (state: Record<string, any>, prevState: Record<string, any>) => void;
 
+// a top level key, several top level keys or a function to select the slice from global state
+export type GlobalStateSelector<S = any> = string | string[] | ((state: Record<string, any>) => S);
+
+export type OnGlobalStateSliceChangeCallback<S = any> = (slice: S, prevSlice: S) => void;
+
+export type GlobalStateSubscribeOptions = {
+  fireImmediately?: boolean;
+  // how to determine whether the selected slice changed, shallow by default
+  equality?: 'shallow' | 'deep' | ((slice: any, prevSlice: any) => boolean);
+};
+
+// a json-schema-like subset to validate the value of global state key
+export type GlobalStateSchema = {
+  type?: GlobalStateSchemaType | GlobalStateSchemaType[];
+  enum?: any[];
+  // required property names while type is object
+  required?: string[];
+  properties?: Record<string, GlobalStateSchema>;
+  // schema of every item while type is array
+  items?: GlobalStateSchema;
+};
+
+export type GlobalStateSchemaType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+// return false or an error message to reject the value
+export type GlobalStateValidator = GlobalStateSchema | ((value: any) => boolean | string);
+
+export type GlobalStateStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export type GlobalStatePersistOptions = {
+  // top level keys to persist
+  keys: string[];
+  // localStorage by default
+  storage?: 'localStorage' | 'sessionStorage' | GlobalStateStorage;
+  // the item name in storage
+  name?: string;
+  version?: number;
+  // migrate the persisted state while its version is different from current one, it will be dropped if not provided
+  migrate?: (persistedState: Record<string, any>, persistedVersion: number) => Record<string, any>;
+};
+
+export type GlobalStateOptions = {
+  // validators of top level keys, invalid writes would be rejected
+  schema?: Record<string, GlobalStateValidator>;
+  // app names which could write the key, the key without permission declared is writable for all apps
+  permissions?: Record<string, string[]>;
+  // persist the keys to storage and rehydrate them while init
+  persist?: GlobalStatePersistOptions;
+  // replay the master writes to other tabs, with BroadcastChannel or storage event as fallback
+  sync?: boolean | { name?: string };
+};
+
+export type GlobalStateRejectReason = 'undeclared' | 'forbidden' | 'invalid';
+
+export type SetGlobalStateResult = {
+  // true only if all the keys have been written
+  success: boolean;
+  changedKeys: string[];
+  rejectedKeys: Array<{ key: string; reason: GlobalStateRejectReason; message: string }>;
+};
+
 export type MicroAppStateActions = {
-  onGlobalStateChange: (callback: OnGlobalStateChangeCallback, fireImmediately?: boolean) => void;
-  setGlobalState: (state: Record<string, any>) => boolean;
+  onGlobalStateChange: {
+    (callback: OnGlobalStateChangeCallback, fireImmediately?: boolean): void;
+    // subscribe a slice of global state, returns the unsubscribe function
+    <S = any>(
+      selector: GlobalStateSelector<S>,
+      callback: OnGlobalStateSliceChangeCallback<S>,
+      options?: GlobalStateSubscribeOptions,
+    ): () => void;
+  };
+  setGlobalState: (state: Record<string, any>) => SetGlobalStateResult;
   offGlobalStateChange: () => boolean;
 };
+
+export type MessageMeta = {
+  // namespace of the sender, the app name or master
+  from: string;
+  topic: string;
+};
+
+// the return value (or resolved value) will be the reply while handling a request
+export type MessageHandler<P = any, R = any> = (payload: P, meta: MessageMeta) => R | Promise<R>;
+
+export type MicroAppMessageChannel = {
+  namespace: string;
+  // notify the listeners of the namespace specified by `to`, or all the namespaces if not specified
+  emit: <P = any>(topic: string, payload?: P, to?: string) => void;
+  on: <P = any>(topic: string, handler: MessageHandler<P>) => () => void;
+  off: (topic: string, handler?: MessageHandler) => void;
+  // the first listener of the target namespace will reply the request
+  request: <R = any, P = any>(to: string, topic: string, payload?: P, options?: { timeout?: number }) => Promise<R>;
+  // remove all the listeners registered by this channel
+  destroy: () => void;
+};
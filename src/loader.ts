@@ -3,21 +3,36 @@
  * @since 2020-04-01
  */
 
+import type { Entry, ImportEntryOpts } from 'import-html-entry';
 import { importEntry } from 'import-html-entry';
 import { concat, forEach, mergeWith } from 'lodash';
 import type { LifeCycles, ParcelConfigObject } from 'single-spa';
 import getAddOns from './addons';
-import { QiankunError } from './error';
+import type { QiankunErrorDetail } from './error';
+import {
+  QiankunContainerNotFoundError,
+  QiankunEntryFetchError,
+  QiankunError,
+  QiankunLifecycleNotFoundError,
+  QiankunScriptEvaluationError,
+  QiankunTimeoutError,
+} from './error';
+import { qiankunEvents } from './events';
 import { getMicroAppStateActions } from './globalState';
+import { createMessageChannel } from './messageChannel';
 import type {
+  AppPerformanceMetric,
   FrameworkConfiguration,
   FrameworkLifeCycles,
   HTMLContentRender,
   LifeCycleFn,
+  LifeCyclePhase,
   LoadableApp,
   ObjectType,
 } from './interfaces';
+import { createFetchRecorder, getSpansDuration, now, recordPerformanceEntry } from './performance';
 import { createSandboxContainer, css } from './sandbox';
+import { evaluateSandboxScripts } from './sandbox/common';
 import {
   Deferred,
   getContainer,
@@ -27,17 +42,19 @@ import {
   performanceMark,
   performanceMeasure,
   performanceGetEntriesByName,
+  sleep,
   toArray,
   validateExportLifecycle,
+  withTimeout,
 } from './utils';
 
-function assertElementExist(element: Element | null | undefined, msg?: string) {
+function assertElementExist(element: Element | null | undefined, msg?: string, detail?: QiankunErrorDetail) {
   if (!element) {
     if (msg) {
-      throw new QiankunError(msg);
+      throw new QiankunContainerNotFoundError(msg, detail);
     }
 
-    throw new QiankunError('element not existed!');
+    throw new QiankunContainerNotFoundError('element not existed!', detail);
   }
 }
 
@@ -123,12 +140,18 @@ function getAppWrapperGetter(
       if (scopedCSS) throw new QiankunError('experimentalStyleIsolation can not be used with legacy render!');
 
       const appWrapper = document.getElementById(getWrapperId(appInstanceId));
-      assertElementExist(appWrapper, `Wrapper element for ${appName} with instance ${appInstanceId} is not existed!`);
+      assertElementExist(appWrapper, `Wrapper element for ${appName} with instance ${appInstanceId} is not existed!`, {
+        appName,
+        appInstanceId,
+      });
       return appWrapper!;
     }
 
     const element = elementGetter();
-    assertElementExist(element, `Wrapper element for ${appName} with instance ${appInstanceId} is not existed!`);
+    assertElementExist(element, `Wrapper element for ${appName} with instance ${appInstanceId} is not existed!`, {
+      appName,
+      appInstanceId,
+    });
 
     if (strictStyleIsolation && supportShadowDOM) {
       return element!.shadowRoot!;
@@ -149,10 +172,11 @@ type ElementRender = (
  * Get the render function
  * If the legacy render function is provide, used as it, otherwise we will insert the app element to target container by qiankun
  * @param appName
+ * @param appInstanceId
  * @param appContent
  * @param legacyRender
  */
-function getRender(appName: string, appContent: string, legacyRender?: HTMLContentRender) {
+function getRender(appName: string, appInstanceId: string, appContent: string, legacyRender?: HTMLContentRender) {
   const render: ElementRender = ({ element, loading, container }, phase) => {
     if (legacyRender) {
       if (process.env.NODE_ENV === 'development') {
@@ -182,7 +206,11 @@ function getRender(appName: string, appContent: string, legacyRender?: HTMLConte
             return `Target container with ${container} not existed while ${appName} rendering!`;
         }
       })();
-      assertElementExist(containerElement, errorMsg);
+      assertElementExist(containerElement, errorMsg, {
+        appName,
+        appInstanceId,
+        phase: phase === 'loading' ? 'load' : 'mount',
+      });
     }
 
     if (containerElement && !containerElement.contains(element)) {
@@ -206,6 +234,7 @@ function getRender(appName: string, appContent: string, legacyRender?: HTMLConte
 function getLifecyclesFromExports(
   scriptExports: LifeCycles<any>,
   appName: string,
+  appInstanceId: string,
   global: WindowProxy,
   globalLatestSetProp?: PropertyKey | null,
 ) {
@@ -234,17 +263,145 @@ function getLifecyclesFromExports(
     return globalVariableExports;
   }
 
-  throw new QiankunError(`You need to export lifecycle functions in ${appName} entry`);
+  throw new QiankunLifecycleNotFoundError(`You need to export lifecycle functions in ${appName} entry`, {
+    appName,
+    appInstanceId,
+    phase: 'load',
+  });
+}
+
+function appendCacheBustingQuery(url: string, cacheBustingKey: string) {
+  // inline code should be returned as it is
+  if (url.charAt(0) === '<') {
+    return url;
+  }
+
+  const hashIndex = url.indexOf('#');
+  const path = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  return `${path}${path.indexOf('?') === -1 ? '?' : '&'}__qiankun_retry__=${cacheBustingKey}${hash}`;
+}
+
+/**
+ * import-html-entry caches the assets by url, even if the fetching failed,
+ * so we need to append a query to the entry and its assets urls to refetch them while retrying
+ * @param entry
+ * @param importEntryOpts
+ * @param cacheBustingKey
+ */
+function getCacheBustingImportArgs(
+  entry: Entry,
+  importEntryOpts: ImportEntryOpts,
+  cacheBustingKey: string,
+): [Entry, ImportEntryOpts] {
+  const bust = (url: string) => appendCacheBustingQuery(url, cacheBustingKey);
+
+  if (typeof entry !== 'string') {
+    const { scripts = [], styles = [] } = entry;
+    return [{ ...entry, scripts: scripts.map(bust), styles: styles.map(bust) }, importEntryOpts];
+  }
+
+  const { postProcessTemplate } = importEntryOpts;
+  return [
+    bust(entry),
+    {
+      ...importEntryOpts,
+      postProcessTemplate: (tplResult) => {
+        const result = postProcessTemplate ? postProcessTemplate(tplResult) : tplResult;
+        return {
+          ...result,
+          scripts: result.scripts.map((script) =>
+            typeof script === 'string' ? bust(script) : { ...script, src: bust(script.src) },
+          ),
+          styles: result.styles.map(bust),
+        };
+      },
+    },
+  ];
+}
+
+function renderFallback<T extends ObjectType>(app: LoadableApp<T>, error: Error) {
+  const { fallback } = app;
+  const container = 'container' in app ? getContainer(app.container) : null;
+  const legacyRender = 'render' in app ? app.render : undefined;
+
+  const fallbackContent = typeof fallback === 'function' ? fallback({ container, error }) : fallback;
+  if (typeof fallbackContent !== 'string') {
+    return;
+  }
+
+  if (legacyRender) {
+    legacyRender({ loading: false, appContent: fallbackContent });
+  } else if (container) {
+    container.innerHTML = fallbackContent;
+  }
+}
+
+/**
+ * only the failures while fetching and evaluating are worth retrying
+ * @param error
+ */
+function isRetryableError(error: any) {
+  return (
+    error instanceof QiankunEntryFetchError ||
+    error instanceof QiankunScriptEvaluationError ||
+    (error instanceof QiankunTimeoutError && error.phase === 'load')
+  );
 }
 
 let prevAppUnmountedDeferred: Deferred<void>;
 
-export type ParcelConfigObjectGetter = (remountContainer?: string | HTMLElement) => ParcelConfigObject;
+// single-spa calls the unload lifecycle of the registered app while unloading or unregistering it, parcels just ignore it
+export type ParcelConfigObjectGetter = (
+  remountContainer?: string | HTMLElement,
+) => ParcelConfigObject & { unload?: () => Promise<void> };
 
 export async function loadApp<T extends ObjectType>(
   app: LoadableApp<T>,
   configuration: FrameworkConfiguration = {},
   lifeCycles?: FrameworkLifeCycles<T>,
+): Promise<ParcelConfigObjectGetter> {
+  const { retry: { times = 0, backoff = 0 } = {} } = app;
+
+  const loadWithRetry = async (attempt: number): Promise<ParcelConfigObjectGetter> => {
+    try {
+      // refetch the assets without cache while retrying
+      const cacheBustingKey = attempt ? `${+new Date()}_${attempt}` : undefined;
+      return await doLoadApp(app, configuration, lifeCycles, cacheBustingKey);
+    } catch (e) {
+      qiankunEvents.emit('app:error', {
+        appName: app.name,
+        appInstanceId: e?.appInstanceId,
+        phase: e?.phase ?? 'load',
+        error: e,
+      });
+
+      if (attempt < times && isRetryableError(e)) {
+        await sleep(typeof backoff === 'function' ? backoff(attempt + 1) : backoff);
+        return loadWithRetry(attempt + 1);
+      }
+
+      throw e;
+    }
+  };
+
+  try {
+    return await loadWithRetry(0);
+  } catch (e) {
+    // render the fallback content to container to replace the loading one
+    if (app.fallback) {
+      renderFallback(app, e);
+    }
+
+    throw e;
+  }
+}
+
+async function doLoadApp<T extends ObjectType>(
+  app: LoadableApp<T>,
+  configuration: FrameworkConfiguration,
+  lifeCycles?: FrameworkLifeCycles<T>,
+  cacheBustingKey?: string,
 ): Promise<ParcelConfigObjectGetter> {
   // 获取要加载的应用和应用的名字
   const { entry, name: appName } = app;
@@ -255,20 +412,89 @@ export async function loadApp<T extends ObjectType>(
     performanceMark(markName);
   }
 
-  const { singular = false, sandbox = true, excludeAssetFilter, ...importEntryOpts } = configuration;
+  const loadStartTime = now();
+  qiankunEvents.emit('app:before-load', { appName, appInstanceId });
+
+  const {
+    singular = false,
+    sandbox = true,
+    excludeAssetFilter,
+    timeouts,
+    onPerformanceEntry,
+    network,
+    cookieIsolation,
+    ...rawImportEntryOpts
+  } = configuration;
+
+  const reportPerformance = (metric: AppPerformanceMetric, duration: number) =>
+    recordPerformanceEntry({ appName, appInstanceId, metric, duration }, onPerformanceEntry);
+  const fetchRecorder = createFetchRecorder(rawImportEntryOpts.fetch);
+  const importEntryOpts = { ...rawImportEntryOpts, fetch: fetchRecorder.fetch };
+
+  // app level timeouts take precedence over the framework ones
+  const appTimeouts = { ...timeouts, ...app.timeouts };
+  // the load phase shares one deadline from fetching entry to evaluating scripts, the others are limited one by one
+  // the time waiting for others (the unmounting of previous app, beforeLoad hooks and the scheduling queue) is not counted
+  let loadWaitingTime = 0;
+  const waitOutOfLoad = async <R>(promise: Promise<R>) => {
+    const waitingStartTime = now();
+    try {
+      return await promise;
+    } finally {
+      loadWaitingTime += now() - waitingStartTime;
+    }
+  };
+  const getRemainingTimeout = (phase: LifeCyclePhase) => {
+    const timeout = appTimeouts[phase];
+    if (phase !== 'load' || !timeout) return timeout;
+    // a non-positive timeout means no limit for withTimeout
+    return Math.max(timeout - (now() - loadStartTime - loadWaitingTime), 1);
+  };
+  const timeoutIn = <R>(phase: LifeCyclePhase, promise: Promise<R>) =>
+    withTimeout(
+      promise,
+      getRemainingTimeout(phase),
+      () => new QiankunTimeoutError(appTimeouts[phase]!, { appName, appInstanceId, phase }),
+    );
+  // lifecycles of the app would be limited by timeout and report the error to qiankunEvents
+  const lifecycleIn = <R>(phase: LifeCyclePhase, promise: Promise<R>) =>
+    timeoutIn(phase, promise).catch((error) => {
+      qiankunEvents.emit('app:error', { appName, appInstanceId, phase, error });
+      throw error;
+    });
+
+  const [entryToImport, optsToImport] = cacheBustingKey
+    ? getCacheBustingImportArgs(entry, importEntryOpts, cacheBustingKey)
+    : [entry, importEntryOpts];
 
   // 通过路径获取 html 并解析为 template execScripts assetPublicPath
   // template: 模板 html
   // execScripts: 要执行的脚本，可以在里面添加沙箱
   // assetPublicPath: 子应用的 publicPath
-  const { template, execScripts, assetPublicPath } = await importEntry(entry, importEntryOpts);
+  const entryFetchStartTime = now();
+  const { template, execScripts, getExternalScripts, assetPublicPath } = await timeoutIn(
+    'load',
+    importEntry(entryToImport, optsToImport).catch((e) => {
+      throw new QiankunEntryFetchError(`Failed to fetch the entry of ${appName}`, {
+        appName,
+        appInstanceId,
+        phase: 'load',
+        cause: e,
+      });
+    }),
+  );
+  reportPerformance('entryFetch', now() - entryFetchStartTime);
+  // the html entry fetches itself and its stylesheets while importing, the config entry only counts its declared styles
+  const isStylesheetFetch = (url: string) =>
+    typeof entryToImport === 'string' ? url !== entryToImport : (entryToImport.styles ?? []).includes(url);
+  reportPerformance('styleFetch', getSpansDuration(fetchRecorder.take().filter(({ url }) => isStylesheetFetch(url))));
 
   // as single-spa load and bootstrap new app parallel with other apps unmounting
   // (see https://github.com/CanopyTax/single-spa/blob/master/src/navigation/reroute.js#L74)
   // we need wait to load the app until all apps are finishing unmount in singular mode
   // 等待所有应用卸载完毕，再进行挂载
   if (await validateSingularMode(singular, app)) {
-    await (prevAppUnmountedDeferred && prevAppUnmountedDeferred.promise);
+    await waitOutOfLoad(Promise.resolve(prevAppUnmountedDeferred && prevAppUnmountedDeferred.promise));
   }
   // 将模板内容外面 包裹一个 div
   const appContent = getDefaultTplWrapper(appInstanceId, appName)(template);
@@ -289,7 +515,7 @@ export async function loadApp<T extends ObjectType>(
   // 遗留的 render 方法
   const legacyRender = 'render' in app ? app.render : undefined;
 
-  const render = getRender(appName, appContent, legacyRender);
+  const render = getRender(appName, appInstanceId, appContent, legacyRender);
 
   // 第一次加载设置应用可见区域 dom 结构
   // 确保每次应用加载前容器 dom 结构已经设置完毕
@@ -308,7 +534,7 @@ export async function loadApp<T extends ObjectType>(
   let mountSandbox = () => Promise.resolve();
   let unmountSandbox = () => Promise.resolve();
   const useLooseSandbox = typeof sandbox === 'object' && !!sandbox.loose;
-  let sandboxContainer;
+  let sandboxContainer: ReturnType<typeof createSandboxContainer> | undefined;
   // 开启沙箱
   if (sandbox) {
     // 创建沙箱容器
@@ -319,13 +545,31 @@ export async function loadApp<T extends ObjectType>(
       scopedCSS,
       useLooseSandbox,
       excludeAssetFilter,
+      { ...(typeof sandbox === 'object' ? sandbox : {}), routingMode: app.routingMode, network, cookieIsolation },
     );
     // 用沙箱的代理对象作为接下来使用的全局对象
     global = sandboxContainer.instance.proxy as typeof window;
-    mountSandbox = sandboxContainer.mount;
-    unmountSandbox = sandboxContainer.unmount;
+    const { mount: mountSandboxContainer, unmount: unmountSandboxContainer } = sandboxContainer;
+    // the durations of sandbox switching are reported, as the snapshot sandbox diffs the whole window
+    mountSandbox = async () => {
+      const activationStartTime = now();
+      await mountSandboxContainer();
+      qiankunEvents.emit('sandbox:activated', { appName, appInstanceId, duration: now() - activationStartTime });
+    };
+    unmountSandbox = async () => {
+      const deactivationStartTime = now();
+      await unmountSandboxContainer();
+      qiankunEvents.emit('sandbox:deactivated', { appName, appInstanceId, duration: now() - deactivationStartTime });
+    };
   }
 
+  // the snapshot sandbox in cooperative mode swaps the globals of app around every call
+  // the calls should be limited with timeout inside the scheduling, thus the slot of a hanging call would be released in time
+  const schedule = <R>(task: () => Promise<R>) => {
+    const scheduleInSandbox = sandboxContainer?.instance.schedule;
+    return scheduleInSandbox ? scheduleInSandbox(task) : task();
+  };
+
   // 为 qiankun 的钩子增加属性
   const {
     beforeUnmount = [],
@@ -334,22 +578,77 @@ export async function loadApp<T extends ObjectType>(
     beforeMount = [],
     beforeLoad = [],
   } = mergeWith({}, getAddOns(global, assetPublicPath), lifeCycles, (v1, v2) => concat(v1 ?? [], v2 ?? []));
-  // 执行 beforeLoad 方法，妆花为链式
-  await execHooksChain(toArray(beforeLoad), app, global);
-
-  // get the lifecycle hooks from module exports
-  // 在沙箱中执行脚本指定上下文
-  const scriptExports: any = await execScripts(global, sandbox && !useLooseSandbox);
-  // 获得子应用的生命周期
-  const { bootstrap, mount, unmount, update } = getLifecyclesFromExports(
-    scriptExports,
-    appName,
-    global,
-    sandboxContainer?.instance?.latestSetProp,
-  );
+
+  const loadLifecycles = async () => {
+    // 执行 beforeLoad 方法，妆花为链式
+    await waitOutOfLoad(execHooksChain(toArray(beforeLoad), app, global));
+
+    // get the lifecycle hooks from module exports
+    // 在沙箱中执行脚本指定上下文
+    fetchRecorder.take();
+    const throwScriptEvaluationError = (e: any) => {
+      throw new QiankunScriptEvaluationError(`Failed to evaluate the scripts of ${appName}`, {
+        appName,
+        appInstanceId,
+        phase: 'load',
+        cause: e,
+      });
+    };
+    // the scripts are fetched before scheduling, as the globals of cooperative app should not be kept on window while waiting for network
+    // execScripts would reuse them from the scripts cache of import-html-entry
+    const externalScripts = await timeoutIn(
+      'load',
+      getExternalScripts().catch((e) => {
+        throw new QiankunEntryFetchError(`Failed to fetch the scripts of ${appName}`, {
+          appName,
+          appInstanceId,
+          phase: 'load',
+          cause: e,
+        });
+      }),
+    );
+    const evaluateScripts = async () => {
+      // the sandbox with its own realm evaluates the scripts itself, the lifecycles are taken from its latest set property
+      const evaluate = sandboxContainer?.instance.evaluate;
+      if (evaluate) {
+        evaluateSandboxScripts(externalScripts as any[], evaluate);
+        return undefined;
+      }
+
+      return execScripts(global, sandbox && !useLooseSandbox);
+    };
+    // the waiting time in scheduling queue is not a part of evaluation
+    const scheduledTime = now();
+    let scriptEvaluationStartTime = 0;
+    const scriptExports: any = await schedule(() => {
+      scriptEvaluationStartTime = now();
+      loadWaitingTime += scriptEvaluationStartTime - scheduledTime;
+      return timeoutIn('load', evaluateScripts().catch(throwScriptEvaluationError));
+    });
+    reportPerformance('scriptEvaluation', now() - scriptEvaluationStartTime);
+    reportPerformance('scriptFetch', getSpansDuration(fetchRecorder.take()));
+    // 获得子应用的生命周期
+    // the lifecycles might be exported to the global of app
+    return schedule(async () =>
+      getLifecyclesFromExports(
+        scriptExports,
+        appName,
+        appInstanceId,
+        global,
+        sandboxContainer?.instance?.latestSetProp,
+      ),
+    );
+  };
+  // the sandbox would never be used while loading failed, such as the iframe of iframe sandbox should be removed
+  const { bootstrap, mount, unmount, update } = await loadLifecycles().catch((e) => {
+    sandboxContainer?.destroy();
+    throw e;
+  });
+  qiankunEvents.emit('app:loaded', { appName, appInstanceId, duration: now() - loadStartTime });
   // 绑定事件监听功能
   const { onGlobalStateChange, setGlobalState, offGlobalStateChange }: Record<string, CallableFunction> =
-    getMicroAppStateActions(appInstanceId);
+    getMicroAppStateActions(appInstanceId, false, appName);
+  const messageChannel = createMessageChannel(appName, appInstanceId);
 
   // FIXME temporary way
   const syncAppWrapperElement2Sandbox = (element: HTMLElement | null) => (initialAppWrapperElement = element);
@@ -357,11 +656,23 @@ export async function loadApp<T extends ObjectType>(
   const parcelConfigGetter: ParcelConfigObjectGetter = (remountContainer = initialContainer) => {
     let appWrapperElement: HTMLElement | null;
     let appWrapperGetter: ReturnType<typeof getAppWrapperGetter>;
+    // the unmount timeout error will be thrown after the whole unmount chain finished, thus the routing could go on
+    let unmountTimeoutError: QiankunTimeoutError | null = null;
+    let mountStartTime: number;
+    let unmountStartTime: number;
 
-    const parcelConfig: ParcelConfigObject = {
+    const parcelConfig: ReturnType<ParcelConfigObjectGetter> = {
       name: appInstanceId,
-      bootstrap,
+      bootstrap: async (props) => {
+        const bootstrapStartTime = now();
+        await schedule(() => lifecycleIn('bootstrap', bootstrap(props)));
+        reportPerformance('bootstrap', now() - bootstrapStartTime);
+      },
       mount: [
+        async () => {
+          mountStartTime = now();
+          qiankunEvents.emit('app:before-mount', { appName, appInstanceId });
+        },
         async () => {
           if (process.env.NODE_ENV === 'development') {
             const marks = performanceGetEntriesByName(markName, 'mark');
@@ -408,7 +719,19 @@ export async function loadApp<T extends ObjectType>(
         // exec the chain after rendering to keep the behavior with beforeLoad
         // 执行 beforeMount 链式调用
         async () => execHooksChain(toArray(beforeMount), app, global),
-        async (props) => mount({ ...props, container: appWrapperGetter(), setGlobalState, onGlobalStateChange }),
+        async (props) =>
+          schedule(() =>
+            lifecycleIn(
+              'mount',
+              mount({
+                ...props,
+                container: appWrapperGetter(),
+                setGlobalState,
+                onGlobalStateChange,
+                messageChannel,
+              }),
+            ),
+          ),
         // finish loading after app mounted
         // 挂载完毕后将 loading 设置为 false
         async () => render({ element: appWrapperElement, loading: false, container: remountContainer }, 'mounted'),
@@ -426,12 +749,28 @@ export async function loadApp<T extends ObjectType>(
             performanceMeasure(measureName, markName);
           }
         },
+        async () => {
+          const mountDuration = now() - mountStartTime;
+          reportPerformance('mount', mountDuration);
+          qiankunEvents.emit('app:mounted', { appName, appInstanceId, duration: mountDuration });
+        },
       ],
       unmount: [
+        async () => {
+          unmountStartTime = now();
+          qiankunEvents.emit('app:before-unmount', { appName, appInstanceId });
+        },
         // 执行 beforeUnmount
         async () => execHooksChain(toArray(beforeUnmount), app, global),
         // 调用 unmount
-        async (props) => unmount({ ...props, container: appWrapperGetter() }),
+        async (props) => {
+          try {
+            await schedule(() => lifecycleIn('unmount', unmount({ ...props, container: appWrapperGetter() })));
+          } catch (e) {
+            if (!(e instanceof QiankunTimeoutError)) throw e;
+            unmountTimeoutError = e;
+          }
+        },
         // 卸载沙箱
         unmountSandbox,
         // 执行 afterUnmount
@@ -441,6 +780,7 @@ export async function loadApp<T extends ObjectType>(
           render({ element: null, loading: false, container: remountContainer }, 'unmounted');
           // 关闭全局监听事件
           offGlobalStateChange(appInstanceId);
+          messageChannel.destroy();
           // for gc
           appWrapperElement = null;
           // 单例卸载后，可以挂另一个
@@ -451,11 +791,25 @@ export async function loadApp<T extends ObjectType>(
             prevAppUnmountedDeferred.resolve();
           }
         },
+        async () => qiankunEvents.emit('app:unmounted', { appName, appInstanceId, duration: now() - unmountStartTime }),
+        async () => {
+          if (unmountTimeoutError) {
+            const error = unmountTimeoutError;
+            unmountTimeoutError = null;
+            throw error;
+          }
+        },
       ],
     };
+    // the app would be reloaded with a new sandbox after unloaded
+    if (sandboxContainer) {
+      const { destroy } = sandboxContainer;
+      parcelConfig.unload = async () => destroy();
+    }
+
     // 添加一个 update 方法
     if (typeof update === 'function') {
-      parcelConfig.update = update;
+      parcelConfig.update = (props) => schedule(() => update(props));
     }
 
     return parcelConfig;
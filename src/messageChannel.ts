@@ -0,0 +1,91 @@
+import { QiankunError } from './error';
+import type { MessageHandler, MicroAppMessageChannel } from './interfaces';
+import { withTimeout } from './utils';
+
+type Listener = {
+  namespace: string;
+  // the channel who registered the listener, used to clean up the listeners while app unmount
+  ownerId: string;
+  handler: MessageHandler;
+};
+
+const listenersMap = new Map<string, Listener[]>();
+
+// used to generate the default owner id, so that the channels of the same namespace would not clean up each other
+let channelCount = 0;
+
+function getListeners(topic: string, to?: string) {
+  const listeners = listenersMap.get(topic) || [];
+  return to ? listeners.filter((listener) => listener.namespace === to) : listeners;
+}
+
+/**
+ * 创建消息通道，用于主子应用之间的指令式通信
+ *
+ * 每个通道都有自己的命名空间（应用名，主应用默认为 master），消息可以广播或者指定发送给某个命名空间，
+ * request 会由目标命名空间的第一个监听者处理，其返回值作为响应。
+ *
+ * @param namespace
+ * @param ownerId 同一个应用的多个实例使用不同的 ownerId，保证卸载时只清理当前实例的监听，默认为每个通道生成唯一的 id
+ */
+export function createMessageChannel(namespace = 'master', ownerId?: string): MicroAppMessageChannel {
+  channelCount += 1;
+  const channelOwnerId = ownerId ?? `${namespace}_channel_${channelCount}`;
+
+  const off = (topic: string, handler?: MessageHandler) => {
+    const listeners = listenersMap.get(topic);
+    if (listeners) {
+      listenersMap.set(
+        topic,
+        listeners.filter(
+          (listener) => listener.ownerId !== channelOwnerId || (handler && listener.handler !== handler),
+        ),
+      );
+    }
+  };
+
+  return {
+    namespace,
+
+    emit(topic, payload, to) {
+      getListeners(topic, to).forEach(({ handler }) => {
+        try {
+          handler(payload, { from: namespace, topic });
+        } catch (e) {
+          console.error(`[qiankun] listener of ${topic} in ${namespace} threw an error`, e);
+        }
+      });
+    },
+
+    on(topic, handler) {
+      const listeners = listenersMap.get(topic) || [];
+      listenersMap.set(topic, [...listeners, { namespace, ownerId: channelOwnerId, handler }]);
+
+      return () => off(topic, handler);
+    },
+
+    off,
+
+    async request(to, topic, payload, { timeout } = {}) {
+      const [responder] = getListeners(topic, to);
+      if (!responder) {
+        throw new QiankunError(`No responder of ${topic} found in ${to}!`);
+      }
+
+      return withTimeout(
+        Promise.resolve(responder.handler(payload, { from: namespace, topic })),
+        timeout,
+        () => new QiankunError(`Request ${topic} to ${to} timeout after ${timeout}ms!`),
+      );
+    },
+
+    destroy() {
+      listenersMap.forEach((listeners, topic) => {
+        listenersMap.set(
+          topic,
+          listeners.filter((listener) => listener.ownerId !== channelOwnerId),
+        );
+      });
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import type { ImportEntryOpts } from 'import-html-entry';
+import type { AppPerformance, AppPerformanceEntry, FrameworkConfiguration } from './interfaces';
+
+// only keep the latest instances of every app to avoid memory leak with loadMicroApp called frequently
+const maxInstancesPerApp = 10;
+const appPerformanceMap = new Map<string, AppPerformance[]>();
+
+export function now() {
+  return typeof performance !== 'undefined' && typeof performance.now === 'function' ? performance.now() : Date.now();
+}
+
+/**
+ * 记录应用实例的性能数据，并通知 onPerformanceEntry 回调
+ * @param entry
+ * @param onPerformanceEntry
+ */
+export function recordPerformanceEntry(
+  entry: AppPerformanceEntry,
+  onPerformanceEntry?: FrameworkConfiguration['onPerformanceEntry'],
+) {
+  const { appName, appInstanceId, metric, duration } = entry;
+  const instances = appPerformanceMap.get(appName) || [];
+
+  let instance = instances.find((v) => v.appInstanceId === appInstanceId);
+  if (!instance) {
+    instance = { appName, appInstanceId };
+    instances.push(instance);
+    if (instances.length > maxInstancesPerApp) {
+      instances.shift();
+    }
+    appPerformanceMap.set(appName, instances);
+  }
+
+  instance[metric] = duration;
+
+  if (onPerformanceEntry) {
+    try {
+      onPerformanceEntry(entry);
+    } catch (e) {
+      console.error('[qiankun] onPerformanceEntry callback threw an error', e);
+    }
+  }
+}
+
+/**
+ * 获取应用各实例的性能数据，按加载顺序排列
+ * @param appName
+ */
+export function getAppPerformance(appName: string): AppPerformance[] {
+  return (appPerformanceMap.get(appName) || []).map((instance) => ({ ...instance }));
+}
+
+type FetchSpan = { url: string; start: number; end: number };
+
+/**
+ * 包装 import-html-entry 使用的 fetch，记录每个资源请求的耗时（包含响应体读取）
+ * @param fetchOption
+ */
+export function createFetchRecorder(fetchOption: ImportEntryOpts['fetch']) {
+  const rawFetch: typeof window.fetch =
+    (typeof fetchOption === 'function' ? fetchOption : fetchOption?.fn) || ((input, init) => window.fetch(input, init));
+  let spans: FetchSpan[] = [];
+
+  const recordedFetch = (async (input: RequestInfo, init?: RequestInit) => {
+    const span: FetchSpan = { url: typeof input === 'string' ? input : input.url, start: now(), end: 0 };
+    spans.push(span);
+
+    const response = await rawFetch(input, init);
+    span.end = now();
+
+    // the response body reading should be counted too
+    const rawText = response.text;
+    if (typeof rawText === 'function') {
+      response.text = async () => {
+        const text = await rawText.call(response);
+        span.end = now();
+        return text;
+      };
+    }
+
+    return response;
+  }) as typeof window.fetch;
+
+  return {
+    fetch:
+      typeof fetchOption === 'object' && fetchOption !== null ? { ...fetchOption, fn: recordedFetch } : recordedFetch,
+
+    /**
+     * take the spans recorded since last taking
+     */
+    take() {
+      const taken = spans;
+      spans = [];
+      return taken;
+    },
+  };
+}
+
+/**
+ * the wall time of the parallel requests
+ * @param spans
+ */
+export function getSpansDuration(spans: FetchSpan[]) {
+  if (!spans.length) {
+    return 0;
+  }
+
+  const start = Math.min(...spans.map((span) => span.start));
+  const end = Math.max(...spans.map((span) => span.end));
+  return Math.max(0, end - start);
+}
@@ -0,0 +1,67 @@
+import { getSandboxReport } from '../audit';
+import LegacySandbox from '../legacy/sandbox';
+import ProxySandbox from '../proxySandbox';
+
+test('should record the global properties accessed by app in proxy sandbox', () => {
+  const { proxy } = new ProxySandbox('audit1', undefined, { audit: true });
+
+  proxy.auditGlobal = 'kuitos';
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  proxy.auditGlobal;
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  proxy.navigator;
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  proxy.navigator;
+  Object.defineProperty(proxy, 'auditDefined', { value: 1, configurable: true });
+  delete proxy.auditGlobal;
+
+  const { appName, records } = getSandboxReport('audit1')!;
+  expect(appName).toBe('audit1');
+  expect(records.map(({ operation, property, count }) => ({ operation, property, count }))).toEqual([
+    { operation: 'write', property: 'auditGlobal', count: 1 },
+    { operation: 'read', property: 'navigator', count: 2 },
+    { operation: 'define', property: 'auditDefined', count: 1 },
+    { operation: 'delete', property: 'auditGlobal', count: 1 },
+  ]);
+  // the stack starts from the app frame, even the trap is triggered through Object.defineProperty
+  records.forEach(({ stack }) => expect(stack.split('\n')[0]).toMatch(/audit\.test\.ts/));
+});
+
+test('should record the global properties accessed by app in legacy sandbox', () => {
+  const { proxy } = new LegacySandbox('audit2', { audit: true });
+
+  proxy.legacyAuditGlobal = 'kuitos';
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  proxy.legacyAuditGlobal;
+
+  expect(getSandboxReport('audit2')!.records.map(({ operation, property }) => [operation, property])).toEqual([
+    ['write', 'legacyAuditGlobal'],
+    ['read', 'legacyAuditGlobal'],
+  ]);
+});
+
+test('should not record anything without audit mode', () => {
+  const { proxy } = new ProxySandbox('audit3');
+  proxy.auditGlobal = 'kuitos';
+  expect(getSandboxReport('audit3')).toBeUndefined();
+});
+
+test('should not take the app frames named as the proxy traps for the sandbox frames', () => {
+  const { proxy } = new ProxySandbox('audit4', undefined, { audit: true });
+
+  // the app functions named get or set, just like the minified code does
+  const app = {
+    set() {
+      proxy.auditGlobal = 'kuitos';
+    },
+    get() {
+      return proxy.navigator;
+    },
+  };
+  app.set();
+  app.get();
+
+  const [writeRecord, readRecord] = getSandboxReport('audit4')!.records;
+  expect(writeRecord.stack.split('\n')[0]).toMatch(/\bset\b.*audit\.test\.ts/);
+  expect(readRecord.stack.split('\n')[0]).toMatch(/\bget\b.*audit\.test\.ts/);
+});
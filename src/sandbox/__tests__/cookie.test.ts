@@ -0,0 +1,51 @@
+import ProxySandbox from '../proxySandbox';
+
+const clearCookies = () =>
+  document.cookie.split(';').forEach((pair) => {
+    const name = pair.split('=')[0].trim();
+    if (name) document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+  });
+
+beforeEach(clearCookies);
+
+test('should prefix the cookies written by app with its name', () => {
+  const { proxy: proxy1 } = new ProxySandbox('cookie1', undefined, { cookieIsolation: true });
+  const { proxy: proxy2 } = new ProxySandbox('cookie2', undefined, { cookieIsolation: true });
+
+  proxy1.document.cookie = 'token=kuitos; path=/';
+  proxy2.document.cookie = 'token=qiankun';
+  document.cookie = 'master=master';
+
+  expect(proxy1.document.cookie).toBe('token=kuitos');
+  expect(proxy2.document.cookie).toBe('token=qiankun');
+  expect(document.cookie).not.toMatch(/(^|; )token=/);
+  expect(document.cookie).toMatch(/(^|; )master=master/);
+
+  proxy1.document.cookie = 'token=; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+  expect(proxy1.document.cookie).toBe('');
+  expect(proxy2.document.cookie).toBe('token=qiankun');
+
+  // the other properties of document are kept
+  expect(proxy1.document.createElement('div')).toBeInstanceOf(HTMLDivElement);
+  expect(proxy1.document.body).toBe(document.body);
+});
+
+test('should expose the cookies of master which are declared as readable', () => {
+  const readableCookieFilter = jest.fn((cookieName: string, appName: string) =>
+    appName === 'cookie3' ? cookieName === 'locale' : false,
+  );
+  const { proxy: proxy3 } = new ProxySandbox('cookie3', undefined, { cookieIsolation: { readableCookieFilter } });
+  const { proxy: proxy4 } = new ProxySandbox('cookie4', undefined, { cookieIsolation: { readableCookieFilter } });
+
+  document.cookie = 'locale=zh-CN';
+  document.cookie = 'session=secret';
+  proxy4.document.cookie = 'locale=en-US';
+
+  expect(proxy3.document.cookie).toBe('locale=zh-CN');
+  expect(proxy4.document.cookie).toBe('locale=en-US');
+
+  // the cookie written by app shadows the master one
+  proxy3.document.cookie = 'locale=ja-JP';
+  expect(proxy3.document.cookie).toBe('locale=ja-JP');
+  expect(document.cookie).toMatch(/(^|; )locale=zh-CN/);
+});
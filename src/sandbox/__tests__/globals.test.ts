@@ -0,0 +1,56 @@
+import { QiankunSandboxViolationError } from '../../error';
+import ProxySandbox from '../proxySandbox';
+
+test('should write the shared globals to the real window', () => {
+  const { proxy } = new ProxySandbox('globals1', undefined, { globals: { shared: ['analytics'] } });
+
+  proxy.analytics = { track: 'app' };
+  expect((window as any).analytics).toEqual({ track: 'app' });
+
+  (window as any).analytics = { track: 'master' };
+  expect(proxy.analytics).toEqual({ track: 'master' });
+
+  delete proxy.analytics;
+  expect(window).not.toHaveProperty('analytics');
+});
+
+test('should never read the isolated globals from the real window', () => {
+  (window as any).jQuery = { fn: { master: true } };
+  const { proxy } = new ProxySandbox('globals2', undefined, { globals: { isolated: ['jQuery'] } });
+
+  expect(proxy.jQuery).toBeUndefined();
+  expect('jQuery' in proxy).toBeTruthy();
+  expect(Object.getOwnPropertyDescriptor(proxy, 'jQuery')).toBeUndefined();
+
+  proxy.jQuery = { fn: { app: true } };
+  expect(proxy.jQuery).toEqual({ fn: { app: true } });
+  expect((window as any).jQuery).toEqual({ fn: { master: true } });
+
+  delete (window as any).jQuery;
+});
+
+test('should reject the writes of readonly globals', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const { proxy } = new ProxySandbox('globals3', undefined, { globals: { readonly: ['readonlyConfig'] } });
+  (window as any).readonlyConfig = 'master';
+
+  proxy.readonlyConfig = 'app';
+  Object.defineProperty(proxy, 'readonlyConfig', { value: 'app' });
+  delete proxy.readonlyConfig;
+  expect(proxy.readonlyConfig).toBe('master');
+  expect(warn).toBeCalledWith('[qiankun] globals3 is not allowed to modify the readonly global readonlyConfig');
+  expect(warn).toBeCalledTimes(3);
+
+  const { proxy: strictProxy } = new ProxySandbox('globals4', undefined, {
+    globals: { readonly: ['readonlyConfig'], throwOnReadonlyWrite: true },
+  });
+  expect(() => {
+    strictProxy.readonlyConfig = 'app';
+  }).toThrow('globals4 is not allowed to modify the readonly global readonlyConfig');
+  expect(() => {
+    strictProxy.readonlyConfig = 'app';
+  }).toThrow(QiankunSandboxViolationError);
+
+  delete (window as any).readonlyConfig;
+  warn.mockRestore();
+});
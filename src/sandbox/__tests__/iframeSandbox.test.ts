@@ -0,0 +1,114 @@
+import { evaluateSandboxScripts } from '../common';
+import IframeSandbox from '../iframeSandbox';
+
+let container: HTMLElement;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  container.innerHTML = '<div id="app-root" class="root"></div>';
+  document.body.appendChild(container);
+});
+
+afterEach(() => {
+  document.body.removeChild(container);
+});
+
+test('should evaluate scripts with the isolated intrinsics', () => {
+  const { proxy, evaluate } = new IframeSandbox('iframe-intrinsics', () => container);
+
+  evaluate(
+    'Array.prototype.hacked = true; Object.prototype.hackedObject = true; window.list = [1, 2]; window.isArray = list instanceof Array;',
+    'app.js',
+  );
+
+  expect((Array.prototype as any).hacked).toBeUndefined();
+  expect(({} as any).hackedObject).toBeUndefined();
+  expect((proxy as any).list.hacked).toBe(true);
+  expect((proxy as any).isArray).toBe(true);
+  expect((window as any).list).toBeUndefined();
+  expect((proxy as any).Array).not.toBe(Array);
+});
+
+test('should share browser apis with master but keep the global variables in sandbox', () => {
+  const { proxy, evaluate } = new IframeSandbox('iframe-globals', () => container);
+
+  evaluate('window.appVariable = 1; implicitVariable = 2; window.path = location.pathname;', 'app.js');
+
+  expect((proxy as any).appVariable).toBe(1);
+  expect((proxy as any).implicitVariable).toBe(2);
+  expect((proxy as any).path).toBe(window.location.pathname);
+  expect(proxy.window).toBe(proxy);
+  expect(proxy.self).toBe(proxy);
+  expect((window as any).appVariable).toBeUndefined();
+  expect((window as any).implicitVariable).toBeUndefined();
+});
+
+test('should scope the document to app container', () => {
+  const { proxy } = new IframeSandbox('iframe-document', () => container);
+  const outside = document.createElement('div');
+  outside.id = 'outside';
+  document.body.appendChild(outside);
+
+  expect(proxy.document.getElementById('app-root')).toBe(container.firstChild);
+  expect(proxy.document.getElementById('outside')).toBeNull();
+  expect(proxy.document.querySelectorAll('.root')).toHaveLength(1);
+  expect(proxy.document.getElementsByTagName('div')).toHaveLength(1);
+
+  const modal = proxy.document.createElement('div');
+  proxy.document.body.appendChild(modal);
+  expect(modal.parentNode).toBe(container);
+  expect(proxy.document.body).toBe(proxy.document.body);
+
+  document.body.removeChild(outside);
+});
+
+test('should ignore the writes while sandbox inactive', () => {
+  const sandbox = new IframeSandbox('iframe-inactive', () => container);
+  sandbox.inactive();
+  (sandbox.proxy as any).afterInactive = true;
+  expect((sandbox.proxy as any).afterInactive).toBeUndefined();
+
+  sandbox.active();
+  (sandbox.proxy as any).afterActive = true;
+  expect((sandbox.proxy as any).afterActive).toBe(true);
+});
+
+test('should not share the compiled scripts with the other sandboxes', async () => {
+  const { proxy, evaluate } = new IframeSandbox('iframe-scripts-cache', () => container);
+  const src = 'http://localhost/iframe-shared.js';
+  const code = 'window.sharedScriptEvaluated = (window.sharedScriptEvaluated || 0) + 1;';
+
+  evaluateSandboxScripts([{ src, value: code }], evaluate!);
+  // import-html-entry requires window.fetch while importing
+  const fetch = jest.fn(() => Promise.resolve({ status: 200, text: () => Promise.resolve(code) }));
+  (window as any).fetch = fetch;
+  const { execScripts } = require('import-html-entry');
+  await execScripts(null, [src], window, { fetch });
+  delete (window as any).fetch;
+
+  expect((proxy as any).sharedScriptEvaluated).toBe(1);
+  expect((window as any).sharedScriptEvaluated).toBe(1);
+  delete (window as any).sharedScriptEvaluated;
+});
+
+test('should block the escapes from iframe realm and document', () => {
+  const { proxy, evaluate } = new IframeSandbox('iframe-escapes', () => container);
+
+  evaluate(
+    "var realm = Function('return this')(); window.realmParent = realm.parent; window.realmTop = realm.top; window.realmFrame = realm.frameElement;",
+    'app.js',
+  );
+
+  expect((proxy as any).realmParent).toBe(proxy);
+  expect((proxy as any).realmTop).toBe(proxy);
+  expect((proxy as any).realmFrame).toBeNull();
+  expect(proxy.document.defaultView).toBe(proxy);
+});
+
+test('should remove the iframe while sandbox destroyed', () => {
+  const sandbox = new IframeSandbox('iframe-destroy', () => container);
+  expect(document.querySelectorAll('iframe[data-qiankun-sandbox="iframe-destroy"]')).toHaveLength(1);
+
+  sandbox.destroy();
+  expect(document.querySelectorAll('iframe[data-qiankun-sandbox="iframe-destroy"]')).toHaveLength(0);
+});
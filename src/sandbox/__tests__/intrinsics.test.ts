@@ -0,0 +1,67 @@
+import ProxySandbox from '../proxySandbox';
+
+test('should revert the mutations of shared intrinsics while sandbox inactive', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const rawIncludes = Array.prototype.includes;
+  const sandbox = new ProxySandbox('intrinsics1', undefined, { protectIntrinsics: true });
+
+  // eslint-disable-next-line no-extend-native
+  Array.prototype.includes = () => true;
+  // @ts-ignore
+  // eslint-disable-next-line no-extend-native
+  Promise.prototype.qiankun = 'kuitos';
+  // @ts-ignore
+  delete Object.entries;
+
+  sandbox.inactive();
+  expect(Array.prototype.includes).toBe(rawIncludes);
+  expect(Promise.prototype).not.toHaveProperty('qiankun');
+  expect(typeof Object.entries).toBe('function');
+  expect(warn).toBeCalledWith(
+    '[qiankun] the shared intrinsics mutated by intrinsics1 are reverted',
+    expect.arrayContaining(['Array.prototype.includes', 'Promise.prototype.qiankun', 'Object.entries']),
+  );
+
+  // the snapshot is taken again at next activation
+  sandbox.active();
+  // @ts-ignore
+  // eslint-disable-next-line no-extend-native
+  String.prototype.qiankun = 'kuitos';
+  sandbox.inactive();
+  expect(String.prototype).not.toHaveProperty('qiankun');
+
+  warn.mockRestore();
+});
+
+test('should block the mutations through Object and Reflect apis with block mode', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const { proxy } = new ProxySandbox('intrinsics2', undefined, { protectIntrinsics: { block: true } });
+
+  proxy.Object.defineProperty(Array.prototype, 'qiankun', { value: 'kuitos', configurable: true });
+  proxy.Reflect.set(Array.prototype, 'qiankun', 'kuitos');
+  expect(Array.prototype).not.toHaveProperty('qiankun');
+  expect(warn).toBeCalledWith(
+    '[qiankun] intrinsics2 is blocked from mutating the shared intrinsic Array.prototype.qiankun',
+  );
+
+  // the mutations of other objects are kept
+  const obj = proxy.Object.defineProperty({}, 'name', { value: 'kuitos' });
+  expect(obj.name).toBe('kuitos');
+  expect(proxy.Object.keys({ a: 1 })).toEqual(['a']);
+  expect(proxy.Object.getPrototypeOf({})).toBe(Object.prototype);
+  expect({} instanceof proxy.Object).toBeTruthy();
+  expect((proxy as any)[Symbol.unscopables]).not.toHaveProperty('Object');
+
+  warn.mockRestore();
+});
+
+test('should break the identity of Object only with block mode', () => {
+  const { proxy: blockedProxy } = new ProxySandbox('intrinsics3', undefined, { protectIntrinsics: { block: true } });
+  // the app reads the guarded Object, while the constructor of object literal is still the real one
+  expect({}.constructor === blockedProxy.Object).toBeFalsy();
+  expect(blockedProxy.Object.prototype).toBe(Object.prototype);
+  expect({} instanceof blockedProxy.Object).toBeTruthy();
+
+  const { proxy } = new ProxySandbox('intrinsics4', undefined, { protectIntrinsics: true });
+  expect({}.constructor === proxy.Object).toBeTruthy();
+});
@@ -377,3 +377,43 @@ it('native window function calling should always be bound with window', () => {
   const { proxy } = new ProxySandbox('mustBeBoundWithWindowReference');
   expect(proxy.nativeWindowFunction()).toBe('success');
 });
+
+it('should scope the document to app wrapper with documentIsolation', () => {
+  const wrapper = document.createElement('div');
+  wrapper.innerHTML = '<span id="inside" class="item"></span>';
+  document.body.appendChild(wrapper);
+  document.title = 'master';
+
+  const { proxy } = new ProxySandbox('documentIsolation', () => wrapper, { documentIsolation: true });
+  const { proxy: rawDocumentProxy } = new ProxySandbox('withoutDocumentIsolation', () => wrapper);
+  expect(rawDocumentProxy.document).toBe(document);
+
+  const isolatedDocument = proxy.document;
+  expect(isolatedDocument.getElementById('inside')).toBe(wrapper.firstChild);
+  expect(isolatedDocument.querySelector('div')).toBeNull();
+  expect(isolatedDocument.getElementsByClassName('item')).toHaveLength(1);
+
+  const quoted = document.createElement('input');
+  quoted.id = 'quoted"id\\';
+  quoted.name = 'quoted"name';
+  wrapper.appendChild(quoted);
+  expect(isolatedDocument.getElementById('quoted"id\\')).toBe(quoted);
+  expect(isolatedDocument.getElementsByName('quoted"name')[0]).toBe(quoted);
+  wrapper.removeChild(quoted);
+
+  const dialog = isolatedDocument.createElement('div');
+  isolatedDocument.body.appendChild(dialog);
+  expect(dialog.parentNode).toBe(wrapper);
+
+  // stylesheets are left to the dynamic append patchers
+  const style = isolatedDocument.createElement('style');
+  isolatedDocument.head.appendChild(style);
+  expect(style.parentNode).toBe(document.head);
+
+  isolatedDocument.title = 'app';
+  expect(isolatedDocument.title).toBe('app');
+  expect(document.title).toBe('master');
+
+  document.head.removeChild(style);
+  document.body.removeChild(wrapper);
+});
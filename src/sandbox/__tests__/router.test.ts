@@ -0,0 +1,119 @@
+import { QiankunError } from '../../error';
+import { createSandboxContainer } from '../index';
+import patchWindowListener from '../patchers/windowListener';
+import ProxySandbox from '../proxySandbox';
+
+jest.mock('import-html-entry', () => ({ execScripts: jest.fn() }));
+
+const waitForPopState = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+test('should keep the location and history in memory for each app instance', () => {
+  const rawHref = window.location.href;
+  const { proxy: proxy1 } = new ProxySandbox('memory1', undefined, { routingMode: 'memory' });
+  const { proxy: proxy2 } = new ProxySandbox('memory2', undefined, { routingMode: 'memory' });
+
+  proxy1.history.pushState({ page: 1 }, '', '/list?page=1');
+  proxy1.history.pushState({ page: 2 }, '', 'detail#comments');
+
+  expect(proxy1.location.pathname).toBe('/detail');
+  expect(proxy1.location.search).toBe('');
+  expect(proxy1.location.hash).toBe('#comments');
+  expect(proxy1.location.href).toBe(`${window.location.origin}/detail#comments`);
+  expect(proxy1.history.state).toEqual({ page: 2 });
+  expect(proxy1.history.length).toBe(3);
+  expect(proxy2.location.pathname).toBe('/');
+  expect(window.location.href).toBe(rawHref);
+});
+
+test('should only dispatch the routing events to the listeners of app', async () => {
+  const { proxy } = new ProxySandbox('memoryEvents', undefined, { routingMode: 'memory' });
+  const free = patchWindowListener(proxy);
+  const appPopStateListener = jest.fn();
+  const appHashChangeListener = jest.fn();
+  const masterPopStateListener = jest.fn();
+  proxy.addEventListener('popstate', appPopStateListener);
+  proxy.addEventListener('hashchange', appHashChangeListener);
+  window.addEventListener('popstate', masterPopStateListener);
+
+  proxy.history.pushState({ page: 1 }, '', '/list');
+  expect(appPopStateListener).not.toHaveBeenCalled();
+
+  proxy.history.back();
+  await waitForPopState();
+  expect(appPopStateListener).toHaveBeenCalledTimes(1);
+  expect(appPopStateListener.mock.calls[0][0].state).toBeNull();
+  expect(proxy.location.pathname).toBe('/');
+
+  proxy.location.hash = 'top';
+  expect(appPopStateListener).toHaveBeenCalledTimes(2);
+  expect(appHashChangeListener).toHaveBeenCalledTimes(1);
+  expect(masterPopStateListener).not.toHaveBeenCalled();
+
+  free();
+  proxy.location.hash = 'bottom';
+  expect(appPopStateListener).toHaveBeenCalledTimes(2);
+
+  window.removeEventListener('popstate', masterPopStateListener);
+});
+
+test('should keep the location of app in a query segment of browser url', () => {
+  const rawPathname = window.location.pathname;
+  const { proxy } = new ProxySandbox('segment', undefined, { routingMode: 'hash-segment' });
+
+  proxy.history.pushState({ id: 1 }, '', '/users/1?tab=info');
+
+  expect(proxy.location.pathname).toBe('/users/1');
+  expect(proxy.location.search).toBe('?tab=info');
+  expect(proxy.history.state).toEqual({ id: 1 });
+  expect(window.location.pathname).toBe(rawPathname);
+  expect(new URLSearchParams(window.location.search).get('qiankun-segment')).toBe('/users/1?tab=info');
+
+  window.history.replaceState(null, '', rawPathname);
+});
+
+test('should not dispatch the popstate to app while its segment written', () => {
+  const rawPathname = window.location.pathname;
+  const rawPushState = window.history.pushState;
+  // the same as single-spa does
+  window.history.pushState = function pushState(...args: Parameters<History['pushState']>) {
+    rawPushState.apply(window.history, args);
+    window.dispatchEvent(new PopStateEvent('popstate'));
+  };
+  const { proxy } = new ProxySandbox('segment-popstate', undefined, { routingMode: 'hash-segment' });
+  const free = patchWindowListener(proxy);
+  const listener = jest.fn();
+  proxy.addEventListener('popstate', listener);
+
+  proxy.history.pushState(null, '', '/users');
+  expect(listener).not.toBeCalled();
+  expect(proxy.location.pathname).toBe('/users');
+
+  free();
+  window.history.pushState = rawPushState;
+  window.history.replaceState(null, '', rawPathname);
+});
+
+test('should reject mounting another instance of app with hash-segment mode while the segment held', async () => {
+  const container = document.createElement('div');
+  const createInstance = (routingMode: 'hash-segment' | 'memory') =>
+    createSandboxContainer('segment-instances', () => container, false, false, undefined, { routingMode });
+  const instance1 = createInstance('hash-segment');
+  const instance2 = createInstance('hash-segment');
+
+  await instance1.mount();
+  await expect(instance2.mount()).rejects.toThrow(QiankunError);
+  await expect(instance2.mount()).rejects.toThrow(
+    'segment-instances with hash-segment routing mode could not be mounted as another instance of it is still mounted!',
+  );
+  // the instances with memory mode never share anything
+  const memoryInstance = createInstance('memory');
+  await memoryInstance.mount();
+  await memoryInstance.unmount();
+
+  await instance1.unmount();
+  await instance2.mount();
+  await instance2.unmount();
+  // the remounting of the same instance is not rejected
+  await instance2.mount();
+  await instance2.unmount();
+});
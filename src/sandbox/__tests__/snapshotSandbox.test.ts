@@ -0,0 +1,168 @@
+import { noop } from 'lodash';
+import { sleep, withTimeout } from '../../utils';
+import SnapshotSandbox from '../snapshotSandbox';
+
+test('should swap the globals of app around every scheduled call in cooperative mode', async () => {
+  const sandbox1 = new SnapshotSandbox('cooperative1', { cooperative: true });
+  const sandbox2 = new SnapshotSandbox('cooperative2', { cooperative: true });
+  const global = window as any;
+
+  await sandbox1.schedule!(async () => {
+    global.appName = 'cooperative1';
+  });
+  await sandbox2.schedule!(async () => {
+    global.appName = 'cooperative2';
+  });
+  expect(global.appName).toBeUndefined();
+
+  sandbox1.active();
+  sandbox2.active();
+  expect(global.appName).toBeUndefined();
+  expect(await sandbox1.schedule!(async () => global.appName)).toBe('cooperative1');
+  expect(await sandbox2.schedule!(async () => global.appName)).toBe('cooperative2');
+
+  sandbox1.inactive();
+  sandbox2.inactive();
+  expect(global.appName).toBeUndefined();
+});
+
+test('should serialise the scheduled calls of apps', async () => {
+  const sandbox1 = new SnapshotSandbox('cooperative3', { cooperative: true });
+  const sandbox2 = new SnapshotSandbox('cooperative4', { cooperative: true });
+  const global = window as any;
+  const calls: string[] = [];
+
+  const mount1 = sandbox1.schedule!(async () => {
+    calls.push('mount1 start');
+    global.mountedApp = 'cooperative3';
+    await sleep(10);
+    calls.push(`mount1 end with ${global.mountedApp}`);
+  });
+  const mount2 = sandbox2.schedule!(async () => {
+    calls.push(`mount2 start with ${global.mountedApp}`);
+    throw new Error('mount2 failed');
+  });
+  const mount3 = sandbox1.schedule!(async () => calls.push(`mount3 start with ${global.mountedApp}`));
+
+  await mount1;
+  await expect(mount2).rejects.toThrow('mount2 failed');
+  await mount3;
+  expect(calls).toEqual([
+    'mount1 start',
+    'mount1 end with cooperative3',
+    'mount2 start with undefined',
+    'mount3 start with cooperative3',
+  ]);
+  expect(global.mountedApp).toBeUndefined();
+});
+
+test('should release the scheduling slot once the scheduled call timed out', async () => {
+  const sandbox1 = new SnapshotSandbox('cooperative-hanging', { cooperative: true });
+  const sandbox2 = new SnapshotSandbox('cooperative-waiting', { cooperative: true });
+  const global = window as any;
+
+  const hanging = sandbox1.schedule!(() => {
+    global.hangingApp = 'cooperative-hanging';
+    return withTimeout(new Promise(noop), 10, () => new Error('mount timeout'));
+  });
+  const waiting = sandbox2.schedule!(async () => global.hangingApp);
+
+  await expect(hanging).rejects.toThrow('mount timeout');
+  expect(await waiting).toBeUndefined();
+  expect(global.hangingApp).toBeUndefined();
+});
+
+test('should run the calls of nested app in the outer scheduling directly', async () => {
+  const outer = new SnapshotSandbox('cooperative-outer', { cooperative: true });
+  const global = window as any;
+  let nested: SnapshotSandbox;
+
+  // the nested app is loaded and mounted in the mount of outer app
+  const outerGlobalInNested = await outer.schedule!(async () => {
+    global.outerGlobal = 'outer';
+    await sleep(0);
+    nested = new SnapshotSandbox('cooperative-nested', { cooperative: true });
+    return nested.schedule!(async () => {
+      global.nestedGlobal = 'nested';
+      return global.outerGlobal;
+    });
+  });
+
+  expect(outerGlobalInNested).toBe('outer');
+  expect(global.outerGlobal).toBeUndefined();
+  expect(global.nestedGlobal).toBeUndefined();
+  expect(await nested!.schedule!(async () => [global.outerGlobal, global.nestedGlobal])).toEqual([undefined, 'nested']);
+  expect(await outer.schedule!(async () => [global.outerGlobal, global.nestedGlobal])).toEqual(['outer', undefined]);
+});
+
+test('should not schedule without cooperative mode', () => {
+  expect(new SnapshotSandbox('snapshot').schedule).toBeUndefined();
+});
+
+test('should restore the added, modified and deleted globals while inactive', () => {
+  const global = window as any;
+  global.snapshotExisted = 'master';
+  global.snapshotDeleted = 'master';
+  const sandbox = new SnapshotSandbox('snapshot-diff');
+
+  sandbox.active();
+  global.snapshotAdded = 'app';
+  global.snapshotExisted = 'app';
+  delete global.snapshotDeleted;
+  sandbox.inactive();
+
+  expect(global).not.toHaveProperty('snapshotAdded');
+  expect(global.snapshotExisted).toBe('master');
+  expect(global.snapshotDeleted).toBe('master');
+
+  sandbox.active();
+  expect(global.snapshotAdded).toBe('app');
+  expect(global.snapshotExisted).toBe('app');
+  expect(global).not.toHaveProperty('snapshotDeleted');
+  sandbox.inactive();
+  expect(global.snapshotDeleted).toBe('master');
+});
+
+test('should take the globals master changed while inactive into the snapshot', () => {
+  const global = window as any;
+  global.snapshotMasterChanged = 'master';
+  global.snapshotMasterDeleted = 'master';
+  const sandbox = new SnapshotSandbox('snapshot-refresh');
+
+  sandbox.active();
+  global.snapshotMasterChanged = 'app';
+  sandbox.inactive();
+
+  global.snapshotMasterChanged = 'master changed';
+  global.snapshotMasterAdded = 'master';
+  delete global.snapshotMasterDeleted;
+
+  sandbox.active();
+  expect(global.snapshotMasterChanged).toBe('app');
+  sandbox.inactive();
+  expect(global.snapshotMasterChanged).toBe('master changed');
+  expect(global.snapshotMasterAdded).toBe('master');
+  expect(global).not.toHaveProperty('snapshotMasterDeleted');
+});
+
+test('should compare the native accessors of window with their descriptors', () => {
+  const getter = jest.fn(() => 1024);
+  Object.defineProperty(window, 'snapshotAccessor', { get: getter, configurable: true, enumerable: true });
+  const sandbox = new SnapshotSandbox('snapshot-accessor');
+
+  sandbox.active();
+  sandbox.inactive();
+  expect(getter).not.toBeCalled();
+
+  sandbox.active();
+  Object.defineProperty(window, 'snapshotAccessor', { value: 'app', configurable: true, enumerable: true });
+  sandbox.inactive();
+  expect(Object.getOwnPropertyDescriptor(window, 'snapshotAccessor')!.get).toBe(getter);
+
+  // the value of app is restored over the getter-only accessor
+  sandbox.active();
+  expect((window as any).snapshotAccessor).toBe('app');
+  sandbox.inactive();
+  expect(Object.getOwnPropertyDescriptor(window, 'snapshotAccessor')!.get).toBe(getter);
+  expect(getter).not.toBeCalled();
+});
@@ -0,0 +1,65 @@
+import ProxySandbox from '../proxySandbox';
+import { createScopedIndexedDB } from '../storage';
+
+beforeEach(() => localStorage.clear());
+
+test('should namespace the storage keys of each app', () => {
+  const { proxy: proxy1 } = new ProxySandbox('storage1', undefined, { storageIsolation: true });
+  const { proxy: proxy2 } = new ProxySandbox('storage2', undefined, { storageIsolation: true });
+
+  proxy1.localStorage.setItem('token', 'kuitos');
+  proxy2.localStorage.token = 'qiankun';
+
+  expect(proxy1.localStorage.getItem('token')).toBe('kuitos');
+  expect(proxy2.localStorage.getItem('token')).toBe('qiankun');
+  expect(proxy1.localStorage.token).toBe('kuitos');
+  expect(localStorage.getItem('token')).toBeNull();
+  expect(Object.keys(proxy1.localStorage)).toEqual(['token']);
+  expect(proxy1.localStorage.length).toBe(1);
+  expect(proxy1.localStorage.key(0)).toBe('token');
+  expect(proxy1.localStorage).toBeInstanceOf(Storage);
+  expect(String(proxy1.localStorage)).toBe(String(localStorage));
+  expect(proxy1.localStorage.valueOf()).toBe(proxy1.localStorage);
+  expect(proxy1.localStorage.hasOwnProperty('token')).toBe(true);
+  expect(proxy1.localStorage.hasOwnProperty('master')).toBe(false);
+  expect('toString' in proxy1.localStorage).toBe(true);
+
+  delete proxy2.localStorage.token;
+  expect(proxy2.localStorage.getItem('token')).toBeNull();
+  expect(proxy1.localStorage.getItem('token')).toBe('kuitos');
+
+  const { proxy: proxy3 } = new ProxySandbox('storage3');
+  expect(proxy3.localStorage).toBe(localStorage);
+});
+
+test('should only clear the keys of app and keep the shared keys', () => {
+  const { proxy } = new ProxySandbox('storage4', undefined, { storageIsolation: { sharedKeys: ['locale'] } });
+
+  localStorage.setItem('master', 'master');
+  proxy.localStorage.setItem('locale', 'zh-CN');
+  proxy.localStorage.setItem('token', 'kuitos');
+  expect(localStorage.getItem('locale')).toBe('zh-CN');
+
+  proxy.localStorage.clear();
+  expect(proxy.localStorage.getItem('token')).toBeNull();
+  expect(proxy.localStorage.getItem('locale')).toBe('zh-CN');
+  expect(localStorage.getItem('master')).toBe('master');
+});
+
+test('should prefix the database names of app', async () => {
+  const rawIndexedDB = {
+    open: jest.fn(),
+    deleteDatabase: jest.fn(),
+    databases: () => Promise.resolve([{ name: 'qiankun:db:users' }, { name: 'shared' }, { name: 'master' }]),
+  } as any;
+  const scopedIndexedDB = createScopedIndexedDB('db', rawIndexedDB, ['shared']);
+
+  scopedIndexedDB.open('users', 2);
+  scopedIndexedDB.open('shared');
+  scopedIndexedDB.deleteDatabase('users');
+
+  expect(rawIndexedDB.open).toHaveBeenNthCalledWith(1, 'qiankun:db:users', 2);
+  expect(rawIndexedDB.open).toHaveBeenNthCalledWith(2, 'shared');
+  expect(rawIndexedDB.deleteDatabase).toBeCalledWith('qiankun:db:users');
+  expect(await (scopedIndexedDB as any).databases()).toEqual([{ name: 'users' }, { name: 'shared' }]);
+});
@@ -0,0 +1,108 @@
+/**
+ * audit the global properties accessed by app, thus we could find out which globals the app depends on before migrating it to strict sandbox
+ */
+
+import type { SandboxAuditOperation, SandboxAuditRecord, SandboxReport } from '../interfaces';
+
+const maxStackFrames = 5;
+// the frames of engine builtins (such as Object.defineProperty which triggered the trap) carry no source location
+const builtinFramePattern = /\((?:<anonymous>|native)\)$/;
+
+const appAuditRecordsMap = new Map<string, Map<string, SandboxAuditRecord>>();
+
+// the frames count from getStackLines to the proxy trap, which would be measured once the first auditor created
+let sandboxFramesCount: number | undefined;
+
+function getStackLines() {
+  // the frames of app would be cut off by the default limit as the sandbox frames ahead of them
+  const { stackTraceLimit } = Error;
+  Error.stackTraceLimit = Infinity;
+  const { stack = '' } = new Error();
+  Error.stackTraceLimit = stackTraceLimit;
+  // the error message line only exists in V8, which would be 'Error:' while the source map support installed
+  return stack
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !/^Error:?$/.test(line));
+}
+
+function getStackSnippet(sandboxFrames: number) {
+  const lines = getStackLines();
+  let appFrameIndex = sandboxFrames;
+  while (appFrameIndex < lines.length && builtinFramePattern.test(lines[appFrameIndex])) {
+    appFrameIndex += 1;
+  }
+
+  return lines.slice(appFrameIndex, appFrameIndex + maxStackFrames).join('\n');
+}
+
+/**
+ * 通过一个探针 trap 走一遍与审计器相同的调用路径，计算出沙箱自身占用的栈帧数，
+ * 而不是按函数名匹配栈帧，避免代码压缩后函数名变化或应用自身的 get/set 函数被误判
+ */
+function measureSandboxFramesCount() {
+  let trapStackLines: string[] = [];
+  // keeps the same depth as proxy trap -> auditSandboxAccess -> getStackSnippet -> getStackLines
+  const getStackSnippetProbe = () => getStackLines();
+  const auditSandboxAccessProbe = () => {
+    trapStackLines = getStackSnippetProbe();
+  };
+  const probe = new Proxy(
+    {},
+    {
+      get() {
+        auditSandboxAccessProbe();
+        return undefined;
+      },
+    },
+  );
+
+  const callerStackLines = getStackLines();
+  // eslint-disable-next-line @typescript-eslint/no-unused-expressions
+  (probe as any).probe;
+
+  // the frame of getStackLines is counted in both of them
+  return trapStackLines.length - callerStackLines.length + 1;
+}
+
+export type SandboxAuditor = (operation: SandboxAuditOperation, p: PropertyKey) => void;
+
+/**
+ * 创建应用的沙箱审计器，同一属性的同类操作只会记录一次调用栈，之后仅累加次数
+ * @param appName
+ */
+export function createSandboxAuditor(appName: string): SandboxAuditor {
+  const records = appAuditRecordsMap.get(appName) || new Map<string, SandboxAuditRecord>();
+  appAuditRecordsMap.set(appName, records);
+
+  if (sandboxFramesCount === undefined) {
+    sandboxFramesCount = measureSandboxFramesCount();
+  }
+  const sandboxFrames = sandboxFramesCount;
+
+  return function auditSandboxAccess(operation, p) {
+    if (typeof p === 'symbol') return;
+
+    const property = String(p);
+    const key = `${operation}:${property}`;
+    const record = records.get(key);
+    if (record) {
+      record.count++;
+    } else {
+      records.set(key, { operation, property, count: 1, stack: getStackSnippet(sandboxFrames) });
+    }
+  };
+}
+
+/**
+ * 获取应用在审计模式下的全局变量访问记录，未开启审计的应用返回 undefined
+ * @param appName
+ */
+export function getSandboxReport(appName: string): SandboxReport | undefined {
+  const records = appAuditRecordsMap.get(appName);
+  if (!records) {
+    return undefined;
+  }
+
+  return { appName, records: [...records.values()].map((record) => ({ ...record })) };
+}
@@ -3,6 +3,7 @@
  * @since 2020-04-13
  */
 
+import type { SandBox } from '../interfaces';
 import { isBoundedFunction, isCallable, isConstructable } from '../utils';
 
 declare global {
@@ -75,3 +76,47 @@ export function getProxyPropertyValue(getter: CallableFunction) {
 
   return getterResult;
 }
+
+type SandboxScript = {
+  src: string | { src: string };
+  // the async scripts are fetched while browser idle
+  value: string | { async: true; content: Promise<string> };
+};
+
+export function throwNonBlockingError(error: any, msg: string) {
+  setTimeout(() => {
+    console.error(msg);
+    throw error;
+  });
+}
+
+/**
+ * 沙箱拥有独立的 realm 时（如 iframe 沙箱），脚本需要交给沙箱自己执行
+ * 不能经由 import-html-entry 的 execScripts 执行，它会以脚本地址为 key 缓存编译后的函数，其他沙箱加载同一地址的脚本时会拿到错误的缓存
+ * 与 execScripts 保持一致，入口脚本（最后一个）的异常会被抛出，其他脚本的异常不阻塞后续脚本的执行
+ * @param scripts the scripts fetched by getExternalScripts of import-html-entry
+ * @param evaluate
+ */
+export function evaluateSandboxScripts(scripts: SandboxScript[], evaluate: NonNullable<SandBox['evaluate']>) {
+  scripts.forEach(({ src, value }, index) => {
+    const scriptSrc = typeof src === 'string' ? src : src.src;
+
+    if (typeof value !== 'string') {
+      value.content
+        .then((code) => evaluate(code, scriptSrc))
+        .catch((e) => throwNonBlockingError(e, `[qiankun]: error occurs while executing async script ${scriptSrc}`));
+      return;
+    }
+
+    if (index === scripts.length - 1) {
+      evaluate(value, scriptSrc);
+      return;
+    }
+
+    try {
+      evaluate(value, scriptSrc);
+    } catch (e) {
+      throwNonBlockingError(e, `[qiankun]: error occurs while executing normal script ${scriptSrc}`);
+    }
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * virtual document.cookie for the apps who should not write the cookies of master and the other apps
+ */
+
+import type { CookieIsolationConfiguration } from '../interfaces';
+import { getTargetValue } from './common';
+
+const cookieNamespace = '__qiankun#';
+
+// the separator # would be escaped by encodeURIComponent, thus the namespaces of apps never overlap
+function getCookiePrefix(appName: string) {
+  return `${cookieNamespace}${encodeURIComponent(appName)}#`;
+}
+
+function parseCookies(cookie: string): Array<[string, string]> {
+  return cookie
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      const index = pair.indexOf('=');
+      return index === -1 ? ['', pair] : [pair.slice(0, index), pair.slice(index + 1)];
+    });
+}
+
+/**
+ * 应用写入的 cookie 名会被加上应用名前缀，读取时只能拿到应用自己写入的 cookie 以及主应用允许其读取的 cookie
+ * @param appName
+ * @param readableCookieFilter
+ */
+function createCookieJar(appName: string, { readableCookieFilter }: CookieIsolationConfiguration) {
+  const prefix = getCookiePrefix(appName);
+
+  return {
+    get() {
+      const ownCookies: Array<[string, string]> = [];
+      const readableCookies: Array<[string, string]> = [];
+      parseCookies(document.cookie).forEach(([name, value]) => {
+        if (name.startsWith(prefix)) {
+          ownCookies.push([name.slice(prefix.length), value]);
+        } else if (!name.startsWith(cookieNamespace) && readableCookieFilter?.(name, appName)) {
+          readableCookies.push([name, value]);
+        }
+      });
+
+      // the cookies of app shadow the master ones with the same name
+      const ownCookieNames = ownCookies.map(([name]) => name);
+      return [...ownCookies, ...readableCookies.filter(([name]) => !ownCookieNames.includes(name))]
+        .map(([name, value]) => (name ? `${name}=${value}` : value))
+        .join('; ');
+    },
+    set(cookie: string) {
+      const index = cookie.indexOf('=');
+      const name = index === -1 ? '' : cookie.slice(0, index).trim();
+      document.cookie = `${prefix}${name}=${index === -1 ? cookie : cookie.slice(index + 1)}`;
+    },
+  };
+}
+
+/**
+ * 创建 cookie 隔离的 document，其余属性的访问与传入的 document 保持一致
+ * @param appName
+ * @param rawDocument the raw document or the scoped document of app
+ * @param configuration
+ */
+export function createCookieScopedDocument(
+  appName: string,
+  rawDocument: Document,
+  configuration: CookieIsolationConfiguration = {},
+): Document {
+  const cookieJar = createCookieJar(appName, configuration);
+
+  return new Proxy(rawDocument, {
+    get(target, p) {
+      if (p === 'cookie') {
+        return cookieJar.get();
+      }
+
+      const value = (target as any)[p];
+      // the methods of scoped document are bound already
+      return target === document ? getTargetValue(target, value) : value;
+    },
+    set(target, p, value) {
+      if (p === 'cookie') {
+        cookieJar.set(String(value));
+        return true;
+      }
+
+      // @ts-ignore
+      target[p] = value;
+      return true;
+    },
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * scoped document for the sandboxes which should not touch the DOM out of the app container
+ */
+
+import { getTargetValue } from './common';
+
+type ElementGetter = () => HTMLElement | ShadowRoot;
+
+// ShadowRoot doesn't have the getElementsBy* methods, we fallback to querySelectorAll
+function getElementsBy(container: HTMLElement | ShadowRoot, method: string, arg: string, fallbackSelector: string) {
+  const native = (container as any)[method];
+  return typeof native === 'function' ? native.call(container, arg) : container.querySelectorAll(fallbackSelector);
+}
+
+/**
+ * escape the value used in a quoted attribute selector, as the ids and names might contain quotes or backslashes
+ * @param value
+ */
+function escapeAttributeValue(value: string) {
+  if (typeof CSS !== 'undefined' && typeof CSS.escape === 'function') {
+    return CSS.escape(value);
+  }
+
+  return value.replace(/["\\]/g, '\\$&');
+}
+
+function createScopedQueries(elementGetter: ElementGetter) {
+  return {
+    querySelector: (selectors: string) => elementGetter().querySelector(selectors),
+    querySelectorAll: (selectors: string) => elementGetter().querySelectorAll(selectors),
+    getElementById: (elementId: string) => elementGetter().querySelector(`[id="${escapeAttributeValue(elementId)}"]`),
+    getElementsByClassName: (classNames: string) =>
+      getElementsBy(
+        elementGetter(),
+        'getElementsByClassName',
+        classNames,
+        classNames
+          .split(/\s+/)
+          .filter(Boolean)
+          .map((className) => `[class~="${escapeAttributeValue(className)}"]`)
+          .join(''),
+      ),
+    getElementsByTagName: (qualifiedName: string) =>
+      getElementsBy(elementGetter(), 'getElementsByTagName', qualifiedName, qualifiedName),
+    getElementsByName: (elementName: string) =>
+      elementGetter().querySelectorAll(`[name="${escapeAttributeValue(elementName)}"]`),
+  };
+}
+
+const redirectedInsertionMethods = ['appendChild', 'insertBefore', 'append', 'prepend'];
+// the same as the hijacking tags of dynamic append patchers
+const dynamicAssetTagNames = ['SCRIPT', 'LINK', 'STYLE'];
+
+/**
+ * body and head are redirected to the app container while inserting nodes, the other operations are kept as raw
+ * @param element
+ * @param elementGetter
+ */
+function createRedirectedElement(element: HTMLElement, elementGetter: ElementGetter) {
+  return new Proxy(element, {
+    get(target, p) {
+      if (typeof p === 'string' && redirectedInsertionMethods.includes(p)) {
+        return (node: any, ...rest: any[]) => {
+          // dynamic scripts and stylesheets should be left to the dynamic append patchers
+          if (dynamicAssetTagNames.includes(node?.tagName?.toUpperCase())) {
+            return (target as any)[p](node, ...rest);
+          }
+
+          const container = elementGetter();
+          if (p === 'insertBefore') {
+            const [refChild] = rest;
+            return container.insertBefore(node, container.contains(refChild) ? refChild : null);
+          }
+
+          return (container as any)[p](node, ...rest);
+        };
+      }
+
+      return getTargetValue(target, (target as any)[p]);
+    },
+    set(target, p, value) {
+      // @ts-ignore
+      target[p] = value;
+      return true;
+    },
+  });
+}
+
+/**
+ * 创建作用域限定在应用容器内的 document
+ * 查询方法只会在应用容器中查找，往 body/head 中插入的节点会被重定向到应用容器中，title 的读写只对当前应用生效
+ * @param elementGetter
+ * @param defaultViewGetter the global of sandbox which document.defaultView should be, it is the raw window if not provided
+ */
+export function createScopedDocument(elementGetter: ElementGetter, defaultViewGetter?: () => WindowProxy): Document {
+  const scopedQueries: Record<string, any> = createScopedQueries(elementGetter);
+  // keep the identity of document.body and document.head
+  const redirectedElementMap = new WeakMap<HTMLElement, HTMLElement>();
+  let virtualTitle = document.title;
+
+  return new Proxy(document, {
+    get(target, p) {
+      if (p === 'title') {
+        return virtualTitle;
+      }
+
+      if (p === 'defaultView' && defaultViewGetter) {
+        return defaultViewGetter();
+      }
+
+      if (typeof p === 'string' && Object.prototype.hasOwnProperty.call(scopedQueries, p)) {
+        return scopedQueries[p];
+      }
+
+      if (p === 'body' || p === 'head') {
+        const element = target[p];
+        if (!redirectedElementMap.has(element)) {
+          redirectedElementMap.set(element, createRedirectedElement(element, elementGetter));
+        }
+
+        return redirectedElementMap.get(element);
+      }
+
+      return getTargetValue(target, (target as any)[p]);
+    },
+    set(target, p, value) {
+      if (p === 'title') {
+        virtualTitle = String(value);
+        return true;
+      }
+
+      // @ts-ignore
+      target[p] = value;
+      return true;
+    },
+  });
+}
@@ -0,0 +1,232 @@
+/* eslint-disable no-param-reassign */
+/**
+ * 基于 iframe 实现的沙箱，用于不受信任的子应用
+ */
+import type { AppSandboxConfiguration, SandBox } from '../interfaces';
+import { SandBoxType } from '../interfaces';
+import { nextTask } from '../utils';
+import { getTargetValue, setCurrentRunningSandboxProxy } from './common';
+import { createCookieScopedDocument } from './cookie';
+import { createScopedDocument } from './document';
+import { intrinsics } from './intrinsics';
+import { attachVirtualRouter, createVirtualRouter } from './router';
+
+type FakeWindow = Window & Record<PropertyKey, any>;
+
+function createSandboxIframe(name: string) {
+  const iframe = document.createElement('iframe');
+  // about:blank inherits the origin of master, thus we could access its realm synchronously
+  iframe.setAttribute('src', 'about:blank');
+  iframe.setAttribute('data-qiankun-sandbox', name);
+  iframe.style.display = 'none';
+  (document.body || document.documentElement).appendChild(iframe);
+
+  return iframe;
+}
+
+/**
+ * the global of iframe realm could be reached by scripts, such as `Function('return this')()`, its parent and frameElement lead to master
+ * @param iframeWindow
+ * @param proxy
+ */
+function blockRealmEscapes(iframeWindow: FakeWindow, proxy: WindowProxy) {
+  const escapes: Record<string, () => any> = { parent: () => proxy, top: () => proxy, frameElement: () => null };
+  Object.keys(escapes).forEach((p) => {
+    try {
+      Object.defineProperty(iframeWindow, p, { get: escapes[p], configurable: true });
+    } catch (e) {
+      // window.top is unforgeable in browsers
+    }
+  });
+}
+
+/**
+ * 基于 iframe 实现的沙箱
+ * 脚本在同源的隐藏 iframe 中执行，内置对象（Array、Object 等）来自 iframe 的 realm，与主应用相互隔离
+ * location、history 以及其他浏览器 api 仍然使用主应用的，document 则被限定在应用容器中
+ * iframe 会在沙箱的整个生命周期中保留，因为应用的隐式全局变量位于 iframe 的 realm 中，沙箱销毁时才会被移除
+ *
+ * 注意该沙箱无法做到完全隔离：浏览器中 iframe 全局对象的 top 无法被改写，
+ * 元素的 ownerDocument.defaultView 也仍然指向主应用的 window
+ */
+export default class IframeSandbox implements SandBox {
+  private iframe: HTMLIFrameElement;
+
+  private iframeWindow: FakeWindow;
+
+  name: string;
+
+  type: SandBoxType;
+
+  proxy: WindowProxy;
+
+  sandboxRunning = true;
+
+  latestSetProp: PropertyKey | null = null;
+
+  active() {
+    this.sandboxRunning = true;
+  }
+
+  // the global variables of app are kept in sandbox, thus nothing need to be restored
+  inactive() {
+    this.sandboxRunning = false;
+  }
+
+  destroy() {
+    this.sandboxRunning = false;
+    this.iframe.parentNode?.removeChild(this.iframe);
+  }
+
+  /**
+   * compile the code with the Function constructor of iframe realm, so that the literals like [] and {} are created with the isolated intrinsics
+   * declared as an arrow function as it would be passed around as a hook
+   * @param code
+   * @param src
+   */
+  evaluate = (code: string, src: string) => {
+    // the src of inline script is the script element itself
+    const sourceURL = src.startsWith('<') ? '' : `//# sourceURL=${src}\n`;
+    const fn = this.iframeWindow.Function('window', 'self', 'globalThis', `with(window){;${code}\n}\n${sourceURL}`);
+    fn.call(this.proxy, this.proxy, this.proxy, this.proxy);
+  };
+
+  constructor(
+    name: string,
+    elementGetter: () => HTMLElement | ShadowRoot,
+    { routingMode = 'browser', cookieIsolation }: AppSandboxConfiguration = {},
+  ) {
+    this.name = name;
+    this.type = SandBoxType.Iframe;
+
+    const rawWindow = window;
+    this.iframe = createSandboxIframe(name);
+    const iframeWindow = this.iframe.contentWindow as FakeWindow;
+    this.iframeWindow = iframeWindow;
+    const fakeWindow = {} as FakeWindow;
+    // document.defaultView should not lead to the raw window
+    const appDocument = createScopedDocument(elementGetter, () => this.proxy);
+    const scopedDocument = cookieIsolation
+      ? createCookieScopedDocument(name, appDocument, typeof cookieIsolation === 'object' ? cookieIsolation : {})
+      : appDocument;
+    const virtualRouter = routingMode !== 'browser' ? createVirtualRouter(name, routingMode) : null;
+
+    const isIntrinsic = (p: PropertyKey) => typeof p === 'string' && intrinsics.includes(p) && p in iframeWindow;
+    const hasOwnProperty = (key: PropertyKey) => fakeWindow.hasOwnProperty(key) || rawWindow.hasOwnProperty(key);
+
+    const proxy = new Proxy(fakeWindow, {
+      set: (target: FakeWindow, p: PropertyKey, value: any): boolean => {
+        if (this.sandboxRunning) {
+          // window.location = url works as location.href = url
+          if (virtualRouter && p === 'location') {
+            virtualRouter.location.href = value;
+            return true;
+          }
+
+          // @ts-ignore
+          target[p] = value;
+          this.latestSetProp = p;
+
+          return true;
+        }
+
+        if (process.env.NODE_ENV === 'development') {
+          console.warn(`[qiankun] Set window.${p.toString()} while sandbox destroyed or inactive in ${name}!`);
+        }
+
+        // 在 strict-mode 下，Proxy 的 handler.set 返回 false 会抛出 TypeError，在沙箱卸载的情况下应该忽略错误
+        return true;
+      },
+
+      get(target: FakeWindow, p: PropertyKey): any {
+        setCurrentRunningSandboxProxy(proxy);
+        // remove the mark in next tick, thus we can identify whether it in micro app or not
+        nextTask(() => setCurrentRunningSandboxProxy(null));
+
+        if (p === 'window' || p === 'self' || p === 'globalThis') {
+          return proxy;
+        }
+
+        if (p === 'top' || p === 'parent') {
+          // if your master app in an iframe context, allow these props escape the sandbox
+          if (rawWindow === rawWindow.parent) {
+            return proxy;
+          }
+          return (rawWindow as any)[p];
+        }
+
+        if (p === 'hasOwnProperty') {
+          return hasOwnProperty;
+        }
+
+        if (p === 'document') {
+          return scopedDocument;
+        }
+
+        if (virtualRouter && (p === 'location' || p === 'history')) {
+          return virtualRouter[p];
+        }
+
+        if (p in target) {
+          return (target as any)[p];
+        }
+
+        // the global variables declared implicitly by app scripts are located in iframe window
+        if (isIntrinsic(p) || (!(p in rawWindow) && p in iframeWindow)) {
+          return (iframeWindow as any)[p];
+        }
+
+        return getTargetValue(rawWindow, (rawWindow as any)[p]);
+      },
+
+      has(target: FakeWindow, p: PropertyKey): boolean {
+        return p in target || p in rawWindow || isIntrinsic(p);
+      },
+
+      getOwnPropertyDescriptor(target: FakeWindow, p: PropertyKey): PropertyDescriptor | undefined {
+        if (target.hasOwnProperty(p)) {
+          return Object.getOwnPropertyDescriptor(target, p);
+        }
+
+        const descriptor = isIntrinsic(p)
+          ? Object.getOwnPropertyDescriptor(iframeWindow, p)
+          : Object.getOwnPropertyDescriptor(rawWindow, p);
+        // A property cannot be reported as non-configurable, if it does not exists as an own property of the target object
+        if (descriptor && !descriptor.configurable) {
+          descriptor.configurable = true;
+        }
+        return descriptor;
+      },
+
+      ownKeys(target: FakeWindow): ArrayLike<string | symbol> {
+        return [...new Set([...Reflect.ownKeys(rawWindow), ...Reflect.ownKeys(target)])];
+      },
+
+      defineProperty: (target: FakeWindow, p: PropertyKey, attributes: PropertyDescriptor): boolean => {
+        if (this.sandboxRunning) {
+          return Reflect.defineProperty(target, p, attributes);
+        }
+
+        return true;
+      },
+
+      deleteProperty(target: FakeWindow, p: PropertyKey): boolean {
+        if (target.hasOwnProperty(p)) {
+          // @ts-ignore
+          delete target[p];
+        }
+
+        return true;
+      },
+
+      // makes sure `window instanceof Window` returns truthy in micro app
+      getPrototypeOf() {
+        return Reflect.getPrototypeOf(rawWindow);
+      },
+    });
+
+    this.proxy = proxy;
+    blockRealmEscapes(iframeWindow, proxy);
+    if (virtualRouter) attachVirtualRouter(proxy, virtualRouter);
+  }
+}
@@ -2,10 +2,12 @@
  * @author Kuitos
  * @since 2019-04-11
  */
-import type { Freer, Rebuilder, SandBox } from '../interfaces';
+import type { AppSandboxConfiguration, Freer, Rebuilder, SandBox } from '../interfaces';
+import IframeSandbox from './iframeSandbox';
 import LegacySandbox from './legacy/sandbox';
 import { patchAtBootstrapping, patchAtMounting } from './patchers';
 import ProxySandbox from './proxySandbox';
+import { getVirtualRouter } from './router';
 import SnapshotSandbox from './snapshotSandbox';
 
 export { css } from './patchers';
@@ -27,6 +29,7 @@ export { css } from './patchers';
  * @param scopedCSS
  * @param useLooseSandbox
  * @param excludeAssetFilter
+ * @param sandboxConfiguration
  */
 export function createSandboxContainer(
   appName: string,
@@ -34,12 +37,17 @@ export function createSandboxContainer(
   scopedCSS: boolean,
   useLooseSandbox?: boolean,
   excludeAssetFilter?: (url: string) => boolean,
+  sandboxConfiguration: AppSandboxConfiguration = {},
 ) {
   let sandbox: SandBox;
-  if (window.Proxy) {
-    sandbox = useLooseSandbox ? new LegacySandbox(appName) : new ProxySandbox(appName);
+  if (window.Proxy && sandboxConfiguration.iframe) {
+    sandbox = new IframeSandbox(appName, elementGetter, sandboxConfiguration);
+  } else if (window.Proxy) {
+    sandbox = useLooseSandbox
+      ? new LegacySandbox(appName, sandboxConfiguration)
+      : new ProxySandbox(appName, elementGetter, sandboxConfiguration);
   } else {
-    sandbox = new SnapshotSandbox(appName);
+    sandbox = new SnapshotSandbox(appName, sandboxConfiguration);
   }
 
   // some side effect could be be invoked while bootstrapping, such as dynamic stylesheet injection with style-loader, especially during the development phase
@@ -61,6 +69,7 @@ export function createSandboxContainer(
       /* ------------------------------------------ 因为有上下文依赖（window），以下代码执行顺序不能变 ------------------------------------------ */
 
       /* ------------------------------------------ 1. 启动/恢复 沙箱------------------------------------------ */
+      getVirtualRouter(sandbox.proxy)?.acquire();
       sandbox.active();
 
       const sideEffectsRebuildersAtBootstrapping = sideEffectsRebuilders.slice(0, bootstrappingFreers.length);
@@ -73,7 +82,14 @@ export function createSandboxContainer(
 
       /* ------------------------------------------ 2. 开启全局变量补丁 ------------------------------------------*/
       // render 沙箱启动时开始劫持各类全局监听，尽量不要在应用初始化阶段有 事件监听/定时器 等副作用
-      mountingFreers = patchAtMounting(appName, elementGetter, sandbox, scopedCSS, excludeAssetFilter);
+      mountingFreers = patchAtMounting(
+        appName,
+        elementGetter,
+        sandbox,
+        scopedCSS,
+        excludeAssetFilter,
+        sandboxConfiguration,
+      );
 
       /* ------------------------------------------ 3. 重置一些初始化时的副作用 ------------------------------------------*/
       // 存在 rebuilder 则表明有些副作用需要重建
@@ -94,6 +110,15 @@ export function createSandboxContainer(
       sideEffectsRebuilders = [...bootstrappingFreers, ...mountingFreers].map((free) => free());
 
       sandbox.inactive();
+      getVirtualRouter(sandbox.proxy)?.release();
+    },
+
+    /**
+     * 应用不会再被挂载时（如加载失败或被注销）销毁沙箱
+     */
+    destroy() {
+      sandbox.destroy?.();
+      getVirtualRouter(sandbox.proxy)?.release();
     },
   };
 }
@@ -0,0 +1,202 @@
+/**
+ * protect the shared intrinsics (such as Array.prototype) from being mutated by app
+ */
+
+/*
+ ECMAScript intrinsics which are shared between the apps in the same realm
+ iframe sandbox takes them from the iframe realm, proxy sandbox could protect them with snapshot while protectIntrinsics enabled
+ see https://tc39.es/ecma262/#sec-global-object
+ */
+export const intrinsics = [
+  'Object',
+  'Function',
+  'Array',
+  'Number',
+  'Boolean',
+  'String',
+  'Symbol',
+  'BigInt',
+  'Date',
+  'Promise',
+  'RegExp',
+  'Error',
+  'AggregateError',
+  'EvalError',
+  'RangeError',
+  'ReferenceError',
+  'SyntaxError',
+  'TypeError',
+  'URIError',
+  'JSON',
+  'Math',
+  'Reflect',
+  'Proxy',
+  'Intl',
+  'Map',
+  'Set',
+  'WeakMap',
+  'WeakSet',
+  'WeakRef',
+  'FinalizationRegistry',
+  'ArrayBuffer',
+  'SharedArrayBuffer',
+  'DataView',
+  'Atomics',
+  'Int8Array',
+  'Uint8Array',
+  'Uint8ClampedArray',
+  'Int16Array',
+  'Uint16Array',
+  'Int32Array',
+  'Uint32Array',
+  'Float32Array',
+  'Float64Array',
+  'BigInt64Array',
+  'BigUint64Array',
+  'parseInt',
+  'parseFloat',
+  'isNaN',
+  'isFinite',
+  'decodeURI',
+  'decodeURIComponent',
+  'encodeURI',
+  'encodeURIComponent',
+  'escape',
+  'unescape',
+  'eval',
+];
+
+type ProtectedTarget = {
+  // such as Array.prototype, for logging
+  path: string;
+  target: any;
+};
+
+type IntrinsicsSnapshot = Map<any, { prototype: object | null; descriptors: Map<PropertyKey, PropertyDescriptor> }>;
+
+// only the objects and functions could be mutated
+function getProtectedTargets(): ProtectedTarget[] {
+  const targets: ProtectedTarget[] = [];
+  intrinsics.forEach((name) => {
+    const value = (window as any)[name];
+    if (value && (typeof value === 'object' || typeof value === 'function')) {
+      targets.push({ path: name, target: value });
+      if (typeof value === 'function' && value.prototype && typeof value.prototype === 'object') {
+        targets.push({ path: `${name}.prototype`, target: value.prototype });
+      }
+    }
+  });
+
+  return targets;
+}
+
+const isSameDescriptor = (a: PropertyDescriptor, b: PropertyDescriptor) =>
+  a.value === b.value &&
+  a.get === b.get &&
+  a.set === b.set &&
+  a.writable === b.writable &&
+  a.enumerable === b.enumerable &&
+  a.configurable === b.configurable;
+
+/**
+ * 记录共享内置对象及其原型的属性，restore 时撤销快照之后的修改（新增、修改、删除以及原型的变更）
+ * 注意快照期间主应用或其他应用对内置对象的修改同样会被撤销
+ */
+export function snapshotIntrinsics() {
+  const protectedTargets = getProtectedTargets();
+  const snapshot: IntrinsicsSnapshot = new Map();
+  protectedTargets.forEach(({ target }) => {
+    const descriptors = new Map<PropertyKey, PropertyDescriptor>();
+    Reflect.ownKeys(target).forEach((key) => descriptors.set(key, Object.getOwnPropertyDescriptor(target, key)!));
+    snapshot.set(target, { prototype: Object.getPrototypeOf(target), descriptors });
+  });
+
+  return {
+    /**
+     * revert the mutations after snapshot
+     * @return the mutated paths, such as Array.prototype.includes
+     */
+    restore(): string[] {
+      const mutatedPaths: string[] = [];
+      protectedTargets.forEach(({ path, target }) => {
+        const { prototype, descriptors } = snapshot.get(target)!;
+        const markMutated = (key: PropertyKey) => mutatedPaths.push(`${path}.${String(key)}`);
+
+        Reflect.ownKeys(target).forEach((key) => {
+          if (!descriptors.has(key)) {
+            markMutated(key);
+            Reflect.deleteProperty(target, key);
+          }
+        });
+
+        descriptors.forEach((descriptor, key) => {
+          const currentDescriptor = Object.getOwnPropertyDescriptor(target, key);
+          if (!currentDescriptor || !isSameDescriptor(currentDescriptor, descriptor)) {
+            markMutated(key);
+            // the non-configurable properties could not be reverted
+            Reflect.defineProperty(target, key, descriptor);
+          }
+        });
+
+        if (Object.getPrototypeOf(target) !== prototype) {
+          markMutated('__proto__');
+          Reflect.setPrototypeOf(target, prototype);
+        }
+      });
+
+      return mutatedPaths;
+    },
+  };
+}
+
+/**
+ * 创建拦截内置对象修改的 Object 与 Reflect，polyfill（如 core-js）一般通过 Object.defineProperty 修改内置对象
+ * 直接赋值的修改无法在执行期间拦截，只能在沙箱 inactive 时通过快照撤销
+ * 注意应用拿到的 Object 是代理而非原生 Object，({}).constructor === Object 之类的身份判断会不成立，
+ * instanceof 与静态方法不受影响
+ * @param appName
+ */
+export function createGuardedIntrinsics(appName: string) {
+  const protectedPaths = new Map(getProtectedTargets().map(({ path, target }) => [target, path]));
+
+  const guard = <T extends (...args: any[]) => any>(method: T, blockedValue: (target: any) => any): T =>
+    function guardedMethod(this: any, target: any, key?: PropertyKey, ...rest: any[]) {
+      const path = protectedPaths.get(target);
+      if (path) {
+        const mutatedPath = typeof key === 'string' || typeof key === 'symbol' ? `${path}.${String(key)}` : path;
+        console.warn(`[qiankun] ${appName} is blocked from mutating the shared intrinsic ${mutatedPath}`);
+        return blockedValue(target);
+      }
+
+      return method.call(this, target, key, ...rest);
+    } as T;
+
+  const createGuardedObject = <T extends object>(raw: T, guardedMethods: Record<string, (...args: any[]) => any>) =>
+    new Proxy(raw, {
+      get(target, p) {
+        if (typeof p === 'string' && Object.prototype.hasOwnProperty.call(guardedMethods, p)) {
+          return guardedMethods[p];
+        }
+
+        return (target as any)[p];
+      },
+    });
+
+  const returnTarget = (target: any) => target;
+  const returnFalse = () => false;
+
+  return {
+    Object: createGuardedObject(Object, {
+      defineProperty: guard(Object.defineProperty, returnTarget),
+      defineProperties: guard(Object.defineProperties, returnTarget),
+      assign: guard(Object.assign, returnTarget),
+      setPrototypeOf: guard(Object.setPrototypeOf, returnTarget),
+    }),
+    Reflect: createGuardedObject(Reflect, {
+      defineProperty: guard(Reflect.defineProperty, returnFalse),
+      set: guard(Reflect.set, returnFalse),
+      deleteProperty: guard(Reflect.deleteProperty, returnFalse),
+      setPrototypeOf: guard(Reflect.setPrototypeOf, returnFalse),
+    }),
+  };
+}
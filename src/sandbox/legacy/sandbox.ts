@@ -2,8 +2,9 @@
  * @author Kuitos
  * @since 2019-04-11
  */
-import type { SandBox } from '../../interfaces';
+import type { AppSandboxConfiguration, SandBox } from '../../interfaces';
 import { SandBoxType } from '../../interfaces';
+import { createSandboxAuditor } from '../audit';
 import { getTargetValue } from '../common';
 
 function isPropConfigurable(target: typeof window, prop: PropertyKey) {
@@ -68,13 +69,14 @@ export default class SingularProxySandbox implements SandBox {
     this.sandboxRunning = false;
   }
 
-  constructor(name: string) {
+  constructor(name: string, { audit }: AppSandboxConfiguration = {}) {
     this.name = name;
     this.type = SandBoxType.LegacyProxy;
     const { addedPropsMapInSandbox, modifiedPropsOriginalValueMapInSandbox, currentUpdatedPropsValueMap } = this;
 
     const rawWindow = window;
     const fakeWindow = Object.create(null) as Window;
+    const auditor = audit ? createSandboxAuditor(name) : null;
 
     const setTrap = (p: PropertyKey, value: any, originalValue: any, sync2Window = true) => {
       if (this.sandboxRunning) {
@@ -107,6 +109,7 @@ export default class SingularProxySandbox implements SandBox {
 
     const proxy = new Proxy(fakeWindow, {
       set: (_: Window, p: PropertyKey, value: any): boolean => {
+        auditor?.('write', p);
         const originalValue = (rawWindow as any)[p];
         return setTrap(p, value, originalValue, true);
       },
@@ -119,6 +122,7 @@ export default class SingularProxySandbox implements SandBox {
           return proxy;
         }
 
+        auditor?.('read', p);
         const value = (rawWindow as any)[p];
         return getTargetValue(rawWindow, value);
       },
@@ -139,6 +143,7 @@ export default class SingularProxySandbox implements SandBox {
       },
 
       defineProperty(_: Window, p: string | symbol, attributes: PropertyDescriptor): boolean {
+        auditor?.('define', p);
         const originalValue = (rawWindow as any)[p];
         const done = Reflect.defineProperty(rawWindow, p, attributes);
         const value = (rawWindow as any)[p];
@@ -146,6 +151,11 @@ export default class SingularProxySandbox implements SandBox {
 
         return done;
       },
+
+      deleteProperty(target: Window, p: PropertyKey): boolean {
+        auditor?.('delete', p);
+        return Reflect.deleteProperty(target, p);
+      },
     });
 
     this.proxy = proxy;
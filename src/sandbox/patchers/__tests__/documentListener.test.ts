@@ -0,0 +1,58 @@
+import { setCurrentRunningSandboxProxy } from '../../common';
+import ProxySandbox from '../../proxySandbox';
+import patch from '../documentListener';
+
+const click = (target: EventTarget) => target.dispatchEvent(new Event('click'));
+
+test('should remove the listeners added by app while freeing', () => {
+  const { proxy } = new ProxySandbox('documentListener');
+  const free = patch(proxy);
+  const appListener = jest.fn();
+  const bodyListener = jest.fn();
+  const masterListener = jest.fn();
+
+  proxy.document.addEventListener('click', appListener);
+  proxy.document.body.addEventListener('click', bodyListener, true);
+  // the master codes run without the sandbox proxy accessing
+  setCurrentRunningSandboxProxy(null);
+  document.addEventListener('click', masterListener);
+
+  free();
+  click(document);
+  click(document.body);
+
+  expect(appListener).not.toBeCalled();
+  expect(bodyListener).not.toBeCalled();
+  expect(masterListener).toBeCalledTimes(1);
+  expect(document.addEventListener).toBe(EventTarget.prototype.addEventListener);
+
+  document.removeEventListener('click', masterListener);
+});
+
+test('should rebuild the listeners added while bootstrapping', () => {
+  const { proxy } = new ProxySandbox('documentListenerBootstrapping');
+  const freeAtBootstrapping = patch(proxy, false);
+  const bootstrappingListener = jest.fn();
+  const removedListener = jest.fn();
+  proxy.document.documentElement.addEventListener('keydown', bootstrappingListener);
+  proxy.document.documentElement.addEventListener('keydown', removedListener);
+
+  const freeAtMounting = patch(proxy);
+  const mountingListener = jest.fn();
+  proxy.document.addEventListener('keydown', mountingListener);
+  proxy.document.documentElement.removeEventListener('keydown', removedListener);
+
+  const rebuild = freeAtBootstrapping();
+  freeAtMounting();
+  document.documentElement.dispatchEvent(new Event('keydown', { bubbles: true }));
+  expect(bootstrappingListener).not.toBeCalled();
+
+  // remount
+  rebuild();
+  document.documentElement.dispatchEvent(new Event('keydown', { bubbles: true }));
+  expect(bootstrappingListener).toBeCalledTimes(1);
+  expect(removedListener).not.toBeCalled();
+  expect(mountingListener).not.toBeCalled();
+
+  freeAtBootstrapping();
+});
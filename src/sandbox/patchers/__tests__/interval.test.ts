@@ -4,10 +4,10 @@
  */
 
 import { sleep } from '../../../utils';
-import patch from '../interval';
+import patch from '../timer';
 
 test('patch setInterval', async () => {
-  const free = patch(window);
+  const free = patch(window, false, ['interval']);
 
   const clearedListener = jest.fn();
   const unclearedListener = jest.fn();
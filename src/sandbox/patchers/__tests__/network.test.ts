@@ -0,0 +1,112 @@
+import type { NetworkRequest } from '../../../interfaces';
+import patch from '../network';
+
+const rawFetch = jest.fn(() => new Promise<Response>(() => {}));
+
+beforeEach(() => {
+  rawFetch.mockClear();
+  window.fetch = rawFetch as any;
+});
+
+test('should resolve the relative url with the baseURL of app and apply the interceptor', () => {
+  const global = {} as WindowProxy;
+  const requests: NetworkRequest[] = [];
+  const free = patch('react', global, {
+    baseURL: { react: 'http://react.qiankun.com/api/' },
+    requestInterceptor(request) {
+      requests.push({ ...request });
+      return { ...request, headers: { 'x-app-name': request.appName } };
+    },
+  });
+
+  global.fetch('users', { method: 'POST' });
+  global.fetch('https://cdn.qiankun.com/data.json');
+
+  expect(requests.map(({ url }) => url)).toEqual([
+    'http://react.qiankun.com/api/users',
+    'https://cdn.qiankun.com/data.json',
+  ]);
+  expect(requests[0]).toMatchObject({ appName: 'react', type: 'fetch', method: 'POST' });
+  const [url, init] = rawFetch.mock.calls[0] as any[];
+  expect(url).toBe('http://react.qiankun.com/api/users');
+  expect((init.headers as Headers).get('x-app-name')).toBe('react');
+
+  const xhr = new global.XMLHttpRequest();
+  const setRequestHeader = jest.spyOn(xhr, 'setRequestHeader');
+  xhr.open('GET', '/config');
+  expect(requests[2]).toMatchObject({ type: 'xhr', url: 'http://react.qiankun.com/config', method: 'GET' });
+  expect(setRequestHeader).toBeCalledWith('x-app-name', 'react');
+  expect(xhr).toBeInstanceOf(XMLHttpRequest);
+  expect(global.XMLHttpRequest.DONE).toBe(XMLHttpRequest.DONE);
+
+  free();
+  expect(global.fetch).toBe(rawFetch);
+  expect(global.XMLHttpRequest).toBe(XMLHttpRequest);
+});
+
+test('should take the url of URL and Request objects', () => {
+  // Request is not provided by jsdom
+  class FakeRequest {
+    url: string;
+
+    method: string;
+
+    headers: Headers;
+
+    constructor(input: string | FakeRequest, init: Partial<FakeRequest> = {}) {
+      this.url = typeof input === 'string' ? input : input.url;
+      this.method = init.method ?? (typeof input === 'string' ? 'GET' : input.method);
+      this.headers = new Headers(init.headers ?? (typeof input === 'string' ? undefined : input.headers));
+    }
+  }
+  (window as any).Request = FakeRequest;
+
+  const global = {} as WindowProxy;
+  const free = patch('svelte', global, {
+    requestInterceptor: (request) => ({ ...request, url: request.url.replace('/api/', '/svelte-api/') }),
+  });
+
+  global.fetch(new URL('http://localhost/api/users') as any);
+  const request = new FakeRequest('http://localhost/api/users', {
+    method: 'POST',
+    headers: { 'x-token': 'token' } as any,
+  });
+  global.fetch(request as any);
+
+  const [[urlInput], [requestInput, requestInit]] = rawFetch.mock.calls as any[];
+  expect(urlInput).toBe('http://localhost/svelte-api/users');
+  expect(requestInput).toBeInstanceOf(FakeRequest);
+  expect(requestInput).toMatchObject({ url: 'http://localhost/svelte-api/users', method: 'POST' });
+  expect(requestInput.headers.get('x-token')).toBe('token');
+  expect(requestInit.method).toBe('POST');
+
+  free();
+  delete (window as any).Request;
+});
+
+test('should abort the pending requests of app while freeing', () => {
+  const global = {} as WindowProxy;
+  const free = patch('vue', global, { abortOnUnmount: true });
+
+  global.fetch('/api/users');
+  const [, init] = rawFetch.mock.calls[0] as any[];
+  const { signal } = init as RequestInit;
+  expect(signal!.aborted).toBeFalsy();
+
+  const xhr = new global.XMLHttpRequest();
+  const abortListener = jest.fn();
+  xhr.addEventListener('abort', abortListener);
+  xhr.open('GET', 'http://localhost:1/api/users');
+  xhr.send();
+
+  free();
+  expect(signal!.aborted).toBeTruthy();
+  expect(abortListener).toBeCalledTimes(1);
+});
+
+test('should keep the raw apis if network is not configured', () => {
+  const global = { fetch: rawFetch } as any;
+  patch('angular', global)();
+  expect(global.fetch).toBe(rawFetch);
+  expect(global.XMLHttpRequest).toBeUndefined();
+});
@@ -0,0 +1,82 @@
+import { sleep } from '../../../utils';
+import patch from '../timer';
+
+test('should cancel the pending timers while freeing', async () => {
+  const global = {} as Window;
+  const free = patch(global);
+
+  const firedTimeoutListener = jest.fn();
+  const clearedTimeoutListener = jest.fn();
+  const pendingTimeoutListener = jest.fn();
+  const intervalListener = jest.fn();
+  const animationFrameListener = jest.fn();
+
+  global.setTimeout(firedTimeoutListener, 0, 'kuitos');
+  global.clearTimeout(global.setTimeout(clearedTimeoutListener, 0));
+  global.setTimeout(pendingTimeoutListener, 50);
+  global.setInterval(intervalListener, 8);
+  global.requestAnimationFrame(animationFrameListener);
+
+  await sleep(20);
+  expect(firedTimeoutListener).toBeCalledWith('kuitos');
+  expect(clearedTimeoutListener).not.toBeCalled();
+  expect(animationFrameListener).toBeCalledTimes(1);
+
+  free();
+  const intervalCalledTimes = intervalListener.mock.calls.length;
+  await sleep(50);
+
+  expect(pendingTimeoutListener).not.toBeCalled();
+  expect(intervalListener).toBeCalledTimes(intervalCalledTimes);
+  expect(global.setTimeout).toBe(window.setTimeout);
+});
+
+test('should pause and resume the pending timers with their original ids', async () => {
+  const global = {} as Window;
+  const pausedListener = jest.fn();
+  const clearedListener = jest.fn();
+
+  const free = patch(global, true);
+  global.setTimeout(pausedListener, 30);
+  const clearedTimeoutId = global.setTimeout(clearedListener, 30);
+  await sleep(10);
+
+  const rebuild = free();
+  await sleep(40);
+  expect(pausedListener).not.toBeCalled();
+
+  // rebuild after next mounting patched
+  const freeAtRemount = patch(global, true);
+  rebuild();
+  global.clearTimeout(clearedTimeoutId);
+  await sleep(40);
+
+  expect(pausedListener).toBeCalledTimes(1);
+  expect(clearedListener).not.toBeCalled();
+  freeAtRemount();
+});
+
+test('should track the animation frames apart from the timers', async () => {
+  const global = {} as Window;
+  const free = patch(global);
+  const animationFrameListener = jest.fn();
+
+  // the ids of animation frames and timers are numbered separately by browsers
+  global.clearTimeout(global.requestAnimationFrame(animationFrameListener));
+  await sleep(20);
+  expect(animationFrameListener).toBeCalledTimes(1);
+
+  free();
+});
+
+test('should only track the given types of timers', () => {
+  const global = {} as Window;
+  const free = patch(global, false, ['interval']);
+
+  expect(global.setInterval).not.toBe(window.setInterval);
+  expect(global.setTimeout).toBeUndefined();
+
+  free();
+  expect(global.setInterval).toBe(window.setInterval);
+  expect(global.setTimeout).toBeUndefined();
+});
@@ -0,0 +1,128 @@
+/**
+ * track the event listeners added to document, document.body and document.documentElement by app
+ */
+
+import { noop } from 'lodash';
+import { getCurrentRunningSandboxProxy } from '../common';
+
+type ListenerRecord = {
+  target: EventTarget;
+  type: string;
+  listener: EventListenerOrEventListenerObject;
+  options?: boolean | AddEventListenerOptions;
+};
+
+type ListenerOwner = {
+  // the listeners of app are identified by the current running sandbox proxy
+  proxy: WindowProxy;
+  capturing: boolean;
+  records: ListenerRecord[];
+};
+
+const rawAddEventListener = EventTarget.prototype.addEventListener;
+const rawRemoveEventListener = EventTarget.prototype.removeEventListener;
+
+let owners: ListenerOwner[] = [];
+let patchedTargets: EventTarget[] = [];
+
+const getCapture = (options?: boolean | EventListenerOptions) =>
+  typeof options === 'boolean' ? options : !!options?.capture;
+
+const isSameListener = (
+  record: ListenerRecord,
+  target: EventTarget,
+  type: string,
+  listener: EventListenerOrEventListenerObject,
+  options?: boolean | EventListenerOptions,
+) =>
+  record.target === target &&
+  record.type === type &&
+  record.listener === listener &&
+  getCapture(record.options) === getCapture(options);
+
+function findCapturingOwner() {
+  const runningProxy = getCurrentRunningSandboxProxy();
+  // the latest owner takes precedence, as the bootstrapping and mounting patchers of one app may be capturing together
+  return [...owners].reverse().find((owner) => owner.capturing && owner.proxy === runningProxy);
+}
+
+function patchTargets() {
+  if (patchedTargets.length) return;
+
+  patchedTargets = [document, document.body, document.documentElement].filter(Boolean);
+  patchedTargets.forEach((target) => {
+    target.addEventListener = function addEventListener(
+      this: EventTarget,
+      type: string,
+      listener: EventListenerOrEventListenerObject | null,
+      options?: boolean | AddEventListenerOptions,
+    ) {
+      const owner = listener && findCapturingOwner();
+      if (owner && !owner.records.some((record) => isSameListener(record, target, type, listener!, options))) {
+        owner.records.push({ target, type, listener: listener!, options });
+      }
+
+      return rawAddEventListener.call(this, type, listener, options);
+    };
+
+    target.removeEventListener = function removeEventListener(
+      this: EventTarget,
+      type: string,
+      listener: EventListenerOrEventListenerObject | null,
+      options?: boolean | EventListenerOptions,
+    ) {
+      if (listener) {
+        owners.forEach((owner) => {
+          owner.records = owner.records.filter((record) => !isSameListener(record, target, type, listener, options));
+        });
+      }
+
+      return rawRemoveEventListener.call(this, type, listener, options);
+    };
+  });
+}
+
+function unpatchTargets() {
+  patchedTargets.forEach((target) => {
+    target.addEventListener = rawAddEventListener;
+    target.removeEventListener = rawRemoveEventListener;
+  });
+  patchedTargets = [];
+}
+
+/**
+ * the listeners could only be identified in strict sandboxes, as the codes of app and master could not be told apart in loose ones
+ * @param global
+ * @param mounting the listeners captured while bootstrapping would be rebuilt at every remounting
+ */
+export default function patch(global: WindowProxy, mounting = true) {
+  const owner: ListenerOwner = { proxy: global, capturing: true, records: [] };
+  owners.push(owner);
+  patchTargets();
+
+  return function free() {
+    // bootstrap patch just called once but its freer will be called multiple times
+    if (owner.capturing) {
+      owner.capturing = false;
+      if (!owners.some(({ capturing }) => capturing)) {
+        unpatchTargets();
+      }
+    }
+
+    owner.records.forEach(({ target, type, listener, options }) =>
+      rawRemoveEventListener.call(target, type, listener, options),
+    );
+
+    if (mounting) {
+      owners = owners.filter((o) => o !== owner);
+      return noop;
+    }
+
+    // 应用只会 bootstrap 一次，bootstrap 阶段绑定的监听需要在下次 mount 之前重新绑定
+    return function rebuild() {
+      owner.records.forEach(({ target, type, listener, options }) =>
+        rawAddEventListener.call(target, type, listener, options),
+      );
+    };
+  };
+}
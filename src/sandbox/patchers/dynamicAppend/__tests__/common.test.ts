@@ -1,4 +1,10 @@
-import { rebuildCSSRules, recordStyledComponentsCSSRules, getStyledElementCSSRules } from '../common';
+import { frameworkConfiguration } from '../../../../apis';
+import {
+  getStyledElementCSSRules,
+  patchHTMLDynamicAppendPrototypeFunctions,
+  rebuildCSSRules,
+  recordStyledComponentsCSSRules,
+} from '../common';
 
 jest.mock('import-html-entry', () => ({
   execScripts: jest.fn(),
@@ -56,3 +62,88 @@ test('should rebuild Styled-Component CSS Rules in the correct order', () => {
   expect((cssStyleSheet?.cssRules[0] as CSSStyleRule).selectorText).toEqual('span');
   expect((cssStyleSheet?.cssRules[1] as CSSStyleRule).selectorText).toEqual('#foo');
 });
+
+describe('dynamic scripts evaluated by sandbox', () => {
+  const container = document.createElement('div');
+  const evaluate = jest.fn();
+  let unpatch: () => void;
+
+  beforeAll(() => {
+    unpatch = patchHTMLDynamicAppendPrototypeFunctions(
+      () => true,
+      () => ({
+        appName: 'evaluateApp',
+        proxy: window,
+        strictGlobal: true,
+        dynamicStyleSheetElements: [],
+        appWrapperGetter: () => container,
+        scopedCSS: false,
+        evaluate,
+      }),
+    );
+  });
+
+  afterAll(() => {
+    unpatch();
+    frameworkConfiguration.fetch = undefined;
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    evaluate.mockReset();
+  });
+
+  const appendScript = (src: string) => {
+    const script = document.createElement('script');
+    script.src = src;
+    const onload = jest.fn();
+    const onerror = jest.fn();
+    script.onload = onload;
+    script.onerror = onerror;
+    document.head.appendChild(script);
+    return { onload, onerror };
+  };
+
+  const flushPromises = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+  test('should raise the evaluation error of dynamic script', async () => {
+    const error = new ReferenceError('foo is not defined');
+    evaluate.mockImplementation(() => {
+      throw error;
+    });
+    frameworkConfiguration.fetch = async () => ({ status: 200, text: async () => 'foo' } as any);
+
+    const { onload, onerror } = appendScript('https://qiankun.umijs.org/evaluate-error.js');
+    await flushPromises();
+
+    expect(evaluate).toBeCalledWith('foo', 'https://qiankun.umijs.org/evaluate-error.js');
+    // the script is loaded even it throws, just like the browser does
+    expect(onload).toBeCalledTimes(1);
+    expect(onerror).not.toBeCalled();
+    expect(() => jest.runAllTimers()).toThrow(error);
+    expect(console.error).toBeCalledWith(
+      '[qiankun]: error occurs while executing dynamic script https://qiankun.umijs.org/evaluate-error.js',
+    );
+  });
+
+  test('should raise the fetching error of dynamic script', async () => {
+    frameworkConfiguration.fetch = async () => ({ status: 404 } as any);
+
+    const { onload, onerror } = appendScript('https://qiankun.umijs.org/not-found.js');
+    await flushPromises();
+
+    expect(evaluate).not.toBeCalled();
+    expect(onload).not.toBeCalled();
+    expect(onerror).toBeCalledTimes(1);
+    expect(() => jest.runAllTimers()).toThrow('https://qiankun.umijs.org/not-found.js load failed with status 404');
+    expect(console.error).toBeCalledWith(
+      '[qiankun]: error occurs while fetching dynamic script https://qiankun.umijs.org/not-found.js',
+    );
+  });
+});
@@ -5,6 +5,8 @@
 import { execScripts } from 'import-html-entry';
 import { isFunction } from 'lodash';
 import { frameworkConfiguration } from '../../../apis';
+import type { SandBox } from '../../../interfaces';
+import { evaluateSandboxScripts, throwNonBlockingError } from '../../common';
 
 import * as css from '../css';
 
@@ -102,6 +104,45 @@ function convertLinkAsStyle(
   return styleElement;
 }
 
+/**
+ * the sandbox with its own realm evaluates the dynamic scripts itself, thus the compiled scripts cache of import-html-entry would not be polluted
+ * @param element
+ * @param evaluate
+ * @param beforeExec
+ * @param fetchFn
+ */
+function evaluateDynamicScript(
+  element: HTMLScriptElement,
+  evaluate: NonNullable<SandBox['evaluate']>,
+  beforeExec: () => void,
+  fetchFn = fetch,
+) {
+  const { src } = element;
+  fetchFn(src)
+    .then((res: any) => {
+      if (res.status >= 400) {
+        throw new Error(`${src} load failed with status ${res.status}`);
+      }
+      return res.text();
+    })
+    .then(
+      (code: string) => {
+        beforeExec();
+        // 与 execScripts 保持一致，执行异常不阻塞后续流程，脚本依然触发 onload
+        try {
+          evaluateSandboxScripts([{ src, value: code }], evaluate);
+        } catch (e) {
+          throwNonBlockingError(e, `[qiankun]: error occurs while executing dynamic script ${src}`);
+        }
+        manualInvokeElementOnLoad(element);
+      },
+      (e) => {
+        manualInvokeElementOnError(element);
+        throwNonBlockingError(e, `[qiankun]: error occurs while fetching dynamic script ${src}`);
+      },
+    );
+}
+
 const styledComponentCSSRulesMap = new WeakMap<HTMLStyleElement, CSSRuleList>();
 const dynamicScriptAttachedCommentMap = new WeakMap<HTMLScriptElement, Comment>();
 const dynamicLinkAttachedInlineStyleMap = new WeakMap<HTMLLinkElement, HTMLStyleElement>();
@@ -134,6 +175,7 @@ export type ContainerConfig = {
   appWrapperGetter: CallableFunction;
   scopedCSS: boolean;
   excludeAssetFilter?: CallableFunction;
+  evaluate?: SandBox['evaluate'];
 };
 
 function getOverwrittenAppendChildOrInsertBefore(opts: {
@@ -162,6 +204,7 @@ function getOverwrittenAppendChildOrInsertBefore(opts: {
         dynamicStyleSheetElements,
         scopedCSS,
         excludeAssetFilter,
+        evaluate,
       } = containerConfig;
 
       switch (element.tagName) {
@@ -215,32 +258,43 @@ function getOverwrittenAppendChildOrInsertBefore(opts: {
           const referenceNode = mountDOM.contains(refChild) ? refChild : null;
 
           if (src) {
-            execScripts(null, [src], proxy, {
-              fetch,
-              strictGlobal,
-              beforeExec: () => {
-                const isCurrentScriptConfigurable = () => {
-                  const descriptor = Object.getOwnPropertyDescriptor(document, 'currentScript');
-                  return !descriptor || descriptor.configurable;
-                };
-                if (isCurrentScriptConfigurable()) {
-                  Object.defineProperty(document, 'currentScript', {
-                    get(): any {
-                      return element;
-                    },
-                    configurable: true,
-                  });
-                }
-              },
-              success: () => {
-                manualInvokeElementOnLoad(element);
-                element = null;
-              },
-              error: () => {
-                manualInvokeElementOnError(element);
-                element = null;
-              },
-            });
+            const defineCurrentScript = () => {
+              const isCurrentScriptConfigurable = () => {
+                const descriptor = Object.getOwnPropertyDescriptor(document, 'currentScript');
+                return !descriptor || descriptor.configurable;
+              };
+              if (isCurrentScriptConfigurable()) {
+                Object.defineProperty(document, 'currentScript', {
+                  get(): any {
+                    return element;
+                  },
+                  configurable: true,
+                });
+              }
+            };
+
+            if (evaluate) {
+              evaluateDynamicScript(
+                element as HTMLScriptElement,
+                evaluate,
+                defineCurrentScript,
+                typeof fetch === 'function' ? fetch : fetch?.fn,
+              );
+            } else {
+              execScripts(null, [src], proxy, {
+                fetch,
+                strictGlobal,
+                beforeExec: defineCurrentScript,
+                success: () => {
+                  manualInvokeElementOnLoad(element);
+                  element = null;
+                },
+                error: () => {
+                  manualInvokeElementOnError(element);
+                  element = null;
+                },
+              });
+            }
 
             const dynamicScriptCommentElement = document.createComment(`dynamic script ${src} replaced by qiankun`);
             dynamicScriptAttachedCommentMap.set(element, dynamicScriptCommentElement);
@@ -248,7 +302,11 @@ function getOverwrittenAppendChildOrInsertBefore(opts: {
           }
 
           // inline script never trigger the onload and onerror event
-          execScripts(null, [`<script>${text}</script>`], proxy, { strictGlobal });
+          if (evaluate) {
+            evaluateSandboxScripts([{ src: `<script>${text}</script>`, value: text }], evaluate);
+          } else {
+            execScripts(null, [`<script>${text}</script>`], proxy, { strictGlobal });
+          }
           const dynamicInlineScriptCommentElement = document.createComment('dynamic inline script replaced by qiankun');
           dynamicScriptAttachedCommentMap.set(element, dynamicInlineScriptCommentElement);
           return rawDOMAppendOrInsertBefore.call(mountDOM, dynamicInlineScriptCommentElement, referenceNode);
@@ -3,7 +3,7 @@
  * @since 2020-10-13
  */
 
-import type { Freer } from '../../../interfaces';
+import type { Freer, SandBox } from '../../../interfaces';
 import { getCurrentRunningSandboxProxy } from '../../common';
 import type { ContainerConfig } from './common';
 import {
@@ -55,6 +55,7 @@ export function patchStrictSandbox(
   mounting = true,
   scopedCSS = false,
   excludeAssetFilter?: CallableFunction,
+  evaluate?: SandBox['evaluate'],
 ): Freer {
   let containerConfig = proxyAttachContainerConfigMap.get(proxy);
   if (!containerConfig) {
@@ -66,6 +67,7 @@ export function patchStrictSandbox(
       strictGlobal: true,
       excludeAssetFilter,
       scopedCSS,
+      evaluate,
     };
     proxyAttachContainerConfigMap.set(proxy, containerConfig);
   }
@@ -3,25 +3,39 @@
  * @since 2019-04-11
  */
 
-import type { Freer, SandBox } from '../../interfaces';
+import type { AppSandboxConfiguration, Freer, SandBox } from '../../interfaces';
 import { SandBoxType } from '../../interfaces';
 import * as css from './css';
+import patchDocumentListener from './documentListener';
 import { patchLooseSandbox, patchStrictSandbox } from './dynamicAppend';
 import patchHistoryListener from './historyListener';
-import patchInterval from './interval';
+import patchNetwork from './network';
+import patchTimer from './timer';
 import patchWindowListener from './windowListener';
 
+// the strict sandboxes could be identified by the current running sandbox proxy
+function isStrictSandbox(sandbox: SandBox) {
+  return sandbox.type === SandBoxType.Proxy || sandbox.type === SandBoxType.Iframe;
+}
+
 export function patchAtMounting(
   appName: string,
   elementGetter: () => HTMLElement | ShadowRoot,
   sandbox: SandBox,
   scopedCSS: boolean,
   excludeAssetFilter?: CallableFunction,
+  sandboxConfiguration: AppSandboxConfiguration = {},
 ): Freer[] {
+  const strict = isStrictSandbox(sandbox);
   const basePatchers = [
-    () => patchInterval(sandbox.proxy),
+    // the global of loose sandbox is the raw window, only the intervals are tracked as before, the other timers of master should not be cleared
+    strict
+      ? () => patchTimer(sandbox.proxy, sandboxConfiguration.pauseTimersOnUnmount)
+      : () => patchTimer(sandbox.proxy, false, ['interval']),
     () => patchWindowListener(sandbox.proxy),
+    ...(strict ? [() => patchDocumentListener(sandbox.proxy, true)] : []),
     () => patchHistoryListener(),
+    ...(strict ? [() => patchNetwork(appName, sandbox.proxy, sandboxConfiguration.network)] : []),
   ];
 
   const patchersInSandbox = {
@@ -37,6 +51,19 @@ export function patchAtMounting(
       ...basePatchers,
       () => patchLooseSandbox(appName, elementGetter, sandbox.proxy, true, scopedCSS, excludeAssetFilter),
     ],
+    [SandBoxType.Iframe]: [
+      ...basePatchers,
+      () =>
+        patchStrictSandbox(
+          appName,
+          elementGetter,
+          sandbox.proxy,
+          true,
+          scopedCSS,
+          excludeAssetFilter,
+          sandbox.evaluate,
+        ),
+    ],
   };
 
   return patchersInSandbox[sandbox.type]?.map((patch) => patch());
@@ -49,16 +76,34 @@ export function patchAtBootstrapping(
   scopedCSS: boolean,
   excludeAssetFilter?: CallableFunction,
 ): Freer[] {
+  const basePatchers = isStrictSandbox(sandbox) ? [() => patchDocumentListener(sandbox.proxy, false)] : [];
+
   const patchersInSandbox = {
     [SandBoxType.LegacyProxy]: [
+      ...basePatchers,
       () => patchLooseSandbox(appName, elementGetter, sandbox.proxy, false, scopedCSS, excludeAssetFilter),
     ],
     [SandBoxType.Proxy]: [
+      ...basePatchers,
       () => patchStrictSandbox(appName, elementGetter, sandbox.proxy, false, scopedCSS, excludeAssetFilter),
     ],
     [SandBoxType.Snapshot]: [
+      ...basePatchers,
       () => patchLooseSandbox(appName, elementGetter, sandbox.proxy, false, scopedCSS, excludeAssetFilter),
     ],
+    [SandBoxType.Iframe]: [
+      ...basePatchers,
+      () =>
+        patchStrictSandbox(
+          appName,
+          elementGetter,
+          sandbox.proxy,
+          false,
+          scopedCSS,
+          excludeAssetFilter,
+          sandbox.evaluate,
+        ),
+    ],
   };
 
   return patchersInSandbox[sandbox.type]?.map((patch) => patch());
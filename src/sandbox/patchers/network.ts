@@ -0,0 +1,164 @@
+/* eslint-disable no-param-reassign */
+/**
+ * intercept the fetch, XMLHttpRequest, WebSocket and EventSource of app, thus the master could scope its network requests
+ */
+
+import { noop } from 'lodash';
+import type { NetworkConfiguration, NetworkRequest, NetworkRequestType } from '../../interfaces';
+
+const absoluteUrlRegex = /^([a-z][a-z\d+\-.]*:)?\/\//i;
+
+function resolveUrl(url: string, baseURL?: string) {
+  if (!baseURL || absoluteUrlRegex.test(url)) {
+    return url;
+  }
+
+  return new URL(url, new URL(baseURL, window.location.href)).href;
+}
+
+/**
+ * create a constructor which could be used with new operator and instanceof, as the native classes could not be extended after compiled to es5
+ * @param RawConstructor
+ * @param create
+ */
+function createConstructor<T>(RawConstructor: any, create: (...args: any[]) => T) {
+  const Constructor = function SandboxConstructor(...args: any[]) {
+    return create(...args);
+  } as any;
+  Constructor.prototype = RawConstructor.prototype;
+  // inherit the static constants, such as XMLHttpRequest.DONE and WebSocket.OPEN
+  Object.setPrototypeOf(Constructor, RawConstructor);
+
+  return Constructor;
+}
+
+export default function patch(appName: string, global: WindowProxy, network?: NetworkConfiguration) {
+  if (!network) {
+    return function free() {
+      return noop;
+    };
+  }
+
+  // the raw apis are taken while patching, as the polyfills (such as whatwg-fetch) might be loaded after qiankun
+  const {
+    fetch: rawFetch,
+    XMLHttpRequest: RawXMLHttpRequest,
+    WebSocket: RawWebSocket,
+    EventSource: RawEventSource,
+  } = window;
+  const { baseURL, requestInterceptor, abortOnUnmount } = network;
+  const appBaseURL = typeof baseURL === 'string' ? baseURL : baseURL?.[appName];
+
+  const intercept = (type: NetworkRequestType, url: string, method?: string): NetworkRequest => {
+    const request: NetworkRequest = { appName, type, url: resolveUrl(url, appBaseURL), method, headers: {} };
+    if (type === 'websocket') {
+      request.url = request.url.replace(/^http/, 'ws');
+    }
+
+    return requestInterceptor?.(request) || request;
+  };
+
+  const pendingControllers = new Set<AbortController>();
+  const pendingRequests = new Set<XMLHttpRequest>();
+  const connections = new Set<WebSocket | EventSource>();
+
+  if (typeof rawFetch === 'function') {
+    global.fetch = (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const rawRequest = typeof Request !== 'undefined' && input instanceof Request ? input : null;
+      // Request object is resolved with document url already, the others (such as URL object) are taken as string
+      const request = intercept(
+        'fetch',
+        rawRequest ? rawRequest.url : String(input),
+        init.method ?? rawRequest?.method,
+      );
+      const headers = new Headers(init.headers ?? rawRequest?.headers);
+      Object.keys(request.headers).forEach((name) => headers.set(name, request.headers[name]));
+
+      // the url of Request object could only be changed by creating a new one
+      let requestInput: RequestInfo = request.url;
+      if (rawRequest) {
+        requestInput = request.url === rawRequest.url ? rawRequest : new Request(request.url, rawRequest);
+      }
+      const requestInit: RequestInit = { ...init, headers };
+      if (request.method) requestInit.method = request.method;
+
+      if (!abortOnUnmount) {
+        return rawFetch.call(window, requestInput, requestInit);
+      }
+
+      const controller = new AbortController();
+      const { signal } = init;
+      if (signal) {
+        if (signal.aborted) controller.abort();
+        signal.addEventListener('abort', () => controller.abort());
+      }
+      pendingControllers.add(controller);
+
+      return rawFetch
+        .call(window, requestInput, { ...requestInit, signal: controller.signal })
+        .finally(() => pendingControllers.delete(controller));
+    };
+  }
+
+  global.XMLHttpRequest = createConstructor(RawXMLHttpRequest, () => {
+    const xhr = new RawXMLHttpRequest();
+    const rawOpen = xhr.open;
+    const rawSend = xhr.send;
+
+    xhr.open = function open(method: string, url: string, ...rest: any[]) {
+      const request = intercept('xhr', String(url), method);
+      (rawOpen as any).call(xhr, request.method || method, request.url, ...rest);
+      // headers could only be set after opened
+      Object.keys(request.headers).forEach((name) => xhr.setRequestHeader(name, request.headers[name]));
+    };
+
+    xhr.send = function send(body?: Document | BodyInit | null) {
+      if (abortOnUnmount) {
+        pendingRequests.add(xhr);
+        xhr.addEventListener('loadend', () => pendingRequests.delete(xhr));
+      }
+
+      return rawSend.call(xhr, body);
+    };
+
+    return xhr;
+  });
+
+  if (typeof RawWebSocket === 'function') {
+    global.WebSocket = createConstructor(RawWebSocket, (url: string | URL, protocols?: string | string[]) => {
+      const socket = new RawWebSocket(intercept('websocket', String(url)).url, protocols);
+      connections.add(socket);
+      socket.addEventListener('close', () => connections.delete(socket));
+      return socket;
+    });
+  }
+
+  if (typeof RawEventSource === 'function') {
+    global.EventSource = createConstructor(
+      RawEventSource,
+      (url: string | URL, eventSourceInitDict?: EventSourceInit) => {
+        const eventSource = new RawEventSource(intercept('eventsource', String(url)).url, eventSourceInitDict);
+        connections.add(eventSource);
+        return eventSource;
+      },
+    );
+  }
+
+  return function free() {
+    if (abortOnUnmount) {
+      pendingControllers.forEach((controller) => controller.abort());
+      pendingRequests.forEach((xhr) => xhr.abort());
+      connections.forEach((connection) => connection.close());
+    }
+    pendingControllers.clear();
+    pendingRequests.clear();
+    connections.clear();
+
+    if (typeof rawFetch === 'function') global.fetch = rawFetch;
+    global.XMLHttpRequest = RawXMLHttpRequest;
+    if (typeof RawWebSocket === 'function') global.WebSocket = RawWebSocket;
+    if (typeof RawEventSource === 'function') global.EventSource = RawEventSource;
+
+    return noop;
+  };
+}
@@ -0,0 +1,184 @@
+/* eslint-disable no-param-reassign */
+/**
+ * track the timeouts, intervals, animation frames and idle callbacks of app, thus they would never fire after app unmounted
+ */
+
+import { noop } from 'lodash';
+
+type TimerType = 'timeout' | 'interval' | 'animationFrame' | 'idleCallback';
+
+type IdleRequestCallback = Parameters<Window['requestIdleCallback']>[0];
+type IdleRequestOptions = Parameters<Window['requestIdleCallback']>[1];
+
+type TimerRecord = {
+  type: TimerType;
+  // the id returned to app, it is kept the same after resumed
+  id: number;
+  rawId: number;
+  handler: TimerHandler;
+  args: any[];
+  delay?: number;
+  options?: IdleRequestOptions;
+  startTime: number;
+  // the rest time of timeout while paused
+  remaining?: number;
+};
+
+const rawSetTimeout = window.setTimeout;
+const rawClearTimeout = window.clearTimeout;
+const rawSetInterval = window.setInterval;
+const rawClearInterval = window.clearInterval;
+const rawRequestAnimationFrame = window.requestAnimationFrame;
+const rawCancelAnimationFrame = window.cancelAnimationFrame;
+// requestIdleCallback is not supported in safari
+const rawRequestIdleCallback: Window['requestIdleCallback'] | undefined = window.requestIdleCallback;
+const rawCancelIdleCallback: Window['cancelIdleCallback'] | undefined = window.cancelIdleCallback;
+
+const allTimerTypes: TimerType[] = ['timeout', 'interval', 'animationFrame', 'idleCallback'];
+
+// the records are kept between mountings, thus the paused timers could be resumed with their original ids
+// they are keyed by type as the browsers number the animation frames and idle callbacks separately from the timers
+const timerRecordsMap = new WeakMap<Window, Map<string, TimerRecord>>();
+
+function getRecordKey(type: TimerType, id: number) {
+  return `${type}:${id}`;
+}
+
+function schedule(records: Map<string, TimerRecord>, record: TimerRecord, delay = record.delay): number {
+  const { type, handler, args } = record;
+  const callback =
+    typeof handler === 'function'
+      ? (...callbackArgs: any[]) => {
+          if (type === 'interval') {
+            record.startTime = Date.now();
+          } else {
+            // one-off timers should be released after fired
+            records.delete(getRecordKey(type, record.id));
+          }
+          return handler(...callbackArgs);
+        }
+      : handler;
+
+  record.startTime = Date.now();
+  switch (type) {
+    case 'timeout':
+      return rawSetTimeout.call(window, callback as any, delay, ...args) as any;
+    case 'interval':
+      return rawSetInterval.call(window, callback as any, delay, ...args) as any;
+    case 'animationFrame':
+      return rawRequestAnimationFrame.call(window, callback as FrameRequestCallback);
+    default:
+      return rawRequestIdleCallback!.call(window, callback as IdleRequestCallback, record.options);
+  }
+}
+
+function cancel({ type, rawId }: TimerRecord) {
+  switch (type) {
+    case 'timeout':
+      return rawClearTimeout.call(window, rawId);
+    case 'interval':
+      return rawClearInterval.call(window, rawId);
+    case 'animationFrame':
+      return rawCancelAnimationFrame.call(window, rawId);
+    default:
+      return rawCancelIdleCallback!.call(window, rawId);
+  }
+}
+
+/**
+ * @param global
+ * @param pauseOnUnmount pause the pending timers while freeing and resume them while rebuilding, otherwise they are cancelled
+ * @param trackedTypes the loose sandboxes only track the intervals, as their global is the raw window shared with master
+ */
+export default function patch(global: Window, pauseOnUnmount = false, trackedTypes: TimerType[] = allTimerTypes) {
+  const records = timerRecordsMap.get(global) || new Map<string, TimerRecord>();
+  timerRecordsMap.set(global, records);
+
+  const track = (record: Omit<TimerRecord, 'id' | 'rawId' | 'startTime'>) => {
+    const trackedRecord = record as TimerRecord;
+    trackedRecord.rawId = schedule(records, trackedRecord);
+    trackedRecord.id = trackedRecord.rawId;
+    records.set(getRecordKey(trackedRecord.type, trackedRecord.id), trackedRecord);
+    return trackedRecord.id;
+  };
+
+  // the timer which not tracked (such as created before patching) is cleared by the raw method
+  const untrack = (type: TimerType, id: number | undefined, rawClear: (id: any) => void) => {
+    const recordKey = getRecordKey(type, id!);
+    const record = id === undefined ? undefined : records.get(recordKey);
+    if (record) {
+      cancel(record);
+      records.delete(recordKey);
+    } else {
+      rawClear.call(window, id);
+    }
+  };
+
+  if (trackedTypes.includes('timeout')) {
+    global.setTimeout = ((handler: TimerHandler, delay?: number, ...args: any[]) =>
+      track({ type: 'timeout', handler, delay, args })) as any;
+    global.clearTimeout = (id?: number) => untrack('timeout', id, rawClearTimeout);
+  }
+
+  if (trackedTypes.includes('interval')) {
+    global.setInterval = ((handler: TimerHandler, delay?: number, ...args: any[]) =>
+      track({ type: 'interval', handler, delay, args })) as any;
+    global.clearInterval = (id?: number) => untrack('interval', id, rawClearInterval);
+  }
+
+  if (trackedTypes.includes('animationFrame')) {
+    global.requestAnimationFrame = (callback: FrameRequestCallback) =>
+      track({ type: 'animationFrame', handler: callback, args: [] });
+    global.cancelAnimationFrame = (id: number) => untrack('animationFrame', id, rawCancelAnimationFrame);
+  }
+
+  if (trackedTypes.includes('idleCallback') && rawRequestIdleCallback && rawCancelIdleCallback) {
+    global.requestIdleCallback = (callback: IdleRequestCallback, options?: IdleRequestOptions) =>
+      track({ type: 'idleCallback', handler: callback, args: [], options });
+    global.cancelIdleCallback = (id: number) => untrack('idleCallback', id, rawCancelIdleCallback);
+  }
+
+  return function free() {
+    const pausedRecords: TimerRecord[] = [];
+    records.forEach((record, recordKey) => {
+      cancel(record);
+
+      if (pauseOnUnmount) {
+        if (record.type === 'timeout') {
+          record.remaining = Math.max(0, (record.delay || 0) - (Date.now() - record.startTime));
+        }
+        pausedRecords.push(record);
+      } else {
+        records.delete(recordKey);
+      }
+    });
+
+    if (trackedTypes.includes('timeout')) {
+      global.setTimeout = rawSetTimeout;
+      global.clearTimeout = rawClearTimeout;
+    }
+    if (trackedTypes.includes('interval')) {
+      global.setInterval = rawSetInterval;
+      global.clearInterval = rawClearInterval;
+    }
+    if (trackedTypes.includes('animationFrame')) {
+      global.requestAnimationFrame = rawRequestAnimationFrame;
+      global.cancelAnimationFrame = rawCancelAnimationFrame;
+    }
+    if (trackedTypes.includes('idleCallback') && rawRequestIdleCallback && rawCancelIdleCallback) {
+      global.requestIdleCallback = rawRequestIdleCallback;
+      global.cancelIdleCallback = rawCancelIdleCallback;
+    }
+
+    if (!pausedRecords.length) {
+      return noop;
+    }
+
+    return function rebuild() {
+      pausedRecords.forEach((record) => {
+        // intervals, animation frames and idle callbacks are restarted as the elapsed time makes no sense to them
+        record.rawId = schedule(records, record, record.type === 'timeout' ? record.remaining : record.delay);
+      });
+    };
+  };
+}
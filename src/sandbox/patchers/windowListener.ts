@@ -5,12 +5,15 @@
  */
 
 import { noop } from 'lodash';
+import { getVirtualRouter } from '../router';
 
 const rawAddEventListener = window.addEventListener;
 const rawRemoveEventListener = window.removeEventListener;
 
 export default function patch(global: WindowProxy) {
   const listenerMap = new Map<string, EventListenerOrEventListenerObject[]>();
+  // the routing events of app with virtual router are only dispatched by the router itself
+  const virtualRouter = getVirtualRouter(global);
 
   global.addEventListener = (
     type: string,
@@ -19,6 +22,9 @@ export default function patch(global: WindowProxy) {
   ) => {
     const listeners = listenerMap.get(type) || [];
     listenerMap.set(type, [...listeners, listener]);
+    if (virtualRouter?.isRoutingEvent(type)) {
+      return virtualRouter.addEventListener(type, listener);
+    }
     return rawAddEventListener.call(window, type, listener, options);
   };
 
@@ -31,6 +37,9 @@ export default function patch(global: WindowProxy) {
     if (storedTypeListeners && storedTypeListeners.length && storedTypeListeners.indexOf(listener) !== -1) {
       storedTypeListeners.splice(storedTypeListeners.indexOf(listener), 1);
     }
+    if (virtualRouter?.isRoutingEvent(type)) {
+      return virtualRouter.removeEventListener(type, listener);
+    }
     return rawRemoveEventListener.call(window, type, listener, options);
   };
 
@@ -3,10 +3,18 @@
  * @author Kuitos
  * @since 2020-3-31
  */
-import type { SandBox } from '../interfaces';
+import { omit } from 'lodash';
+import { QiankunSandboxViolationError } from '../error';
+import type { AppSandboxConfiguration, SandBox } from '../interfaces';
 import { SandBoxType } from '../interfaces';
 import { nextTask } from '../utils';
+import { createSandboxAuditor } from './audit';
 import { getTargetValue, setCurrentRunningSandboxProxy } from './common';
+import { createCookieScopedDocument } from './cookie';
+import { createScopedDocument } from './document';
+import { createGuardedIntrinsics, snapshotIntrinsics } from './intrinsics';
+import { attachVirtualRouter, createVirtualRouter } from './router';
+import { createScopedIndexedDB, createScopedStorage } from './storage';
 
 /**
  * fastest(at most time) unique array method
@@ -29,7 +37,7 @@ const variableWhiteListInDev =
         '__REACT_ERROR_OVERLAY_GLOBAL_HOOK__',
       ]
     : [];
-// who could escape the sandbox
+// who could escape the sandbox, the globals of app could be configured with sandbox.globals
 const variableWhiteList: PropertyKey[] = [
   // FIXME System.js used a indirect call with eval, which would make it scope escape to global
   // To make System.js works well, we write it back to global window temporary
@@ -129,6 +137,11 @@ export default class ProxySandbox implements SandBox {
   /** window 值变更记录 */
   private updatedValueSet = new Set<PropertyKey>();
 
+  private protectIntrinsics: boolean;
+
+  /** 沙箱激活时内置对象的快照 */
+  private intrinsicsSnapshot: ReturnType<typeof snapshotIntrinsics> | null = null;
+
   name: string;
 
   type: SandBoxType;
@@ -140,7 +153,10 @@ export default class ProxySandbox implements SandBox {
   latestSetProp: PropertyKey | null = null;
 
   active() {
-    if (!this.sandboxRunning) activeSandboxCount++;
+    if (!this.sandboxRunning) {
+      activeSandboxCount++;
+      if (this.protectIntrinsics) this.intrinsicsSnapshot = snapshotIntrinsics();
+    }
     this.sandboxRunning = true;
   }
 
@@ -160,16 +176,73 @@ export default class ProxySandbox implements SandBox {
       });
     }
 
+    const mutatedIntrinsics = this.intrinsicsSnapshot?.restore() || [];
+    if (mutatedIntrinsics.length) {
+      console.warn(`[qiankun] the shared intrinsics mutated by ${this.name} are reverted`, mutatedIntrinsics);
+    }
+
     this.sandboxRunning = false;
   }
 
-  constructor(name: string) {
+  constructor(
+    name: string,
+    elementGetter?: () => HTMLElement | ShadowRoot,
+    {
+      documentIsolation,
+      routingMode = 'browser',
+      storageIsolation,
+      cookieIsolation,
+      audit,
+      protectIntrinsics,
+      globals = {},
+    }: AppSandboxConfiguration = {},
+  ) {
     this.name = name;
     this.type = SandBoxType.Proxy;
+    this.protectIntrinsics = !!protectIntrinsics;
+    if (protectIntrinsics) this.intrinsicsSnapshot = snapshotIntrinsics();
     const { updatedValueSet } = this;
 
     const rawWindow = window;
     const { fakeWindow, propertiesWithGetter } = createFakeWindow(rawWindow);
+    const scopedDocument = documentIsolation && elementGetter ? createScopedDocument(elementGetter) : document;
+    const sandboxDocument = cookieIsolation
+      ? createCookieScopedDocument(name, scopedDocument, typeof cookieIsolation === 'object' ? cookieIsolation : {})
+      : scopedDocument;
+    const virtualRouter = routingMode !== 'browser' ? createVirtualRouter(name, routingMode) : null;
+    const { sharedKeys = [] } = typeof storageIsolation === 'object' ? storageIsolation : {};
+    // the storages are created lazily as accessing them might throw a SecurityError while cookies disabled
+    const scopedStorages = new Map<PropertyKey, Storage | IDBFactory | undefined>();
+    const getScopedStorage = (p: 'localStorage' | 'sessionStorage' | 'indexedDB') => {
+      if (!scopedStorages.has(p)) {
+        scopedStorages.set(
+          p,
+          p === 'indexedDB'
+            ? rawWindow.indexedDB && createScopedIndexedDB(name, rawWindow.indexedDB, sharedKeys)
+            : createScopedStorage(name, rawWindow[p], sharedKeys),
+        );
+      }
+      return scopedStorages.get(p);
+    };
+
+    const auditor = audit ? createSandboxAuditor(name) : null;
+    const guardedIntrinsics =
+      typeof protectIntrinsics === 'object' && protectIntrinsics.block ? createGuardedIntrinsics(name) : null;
+    // the guarded Object should be resolved through proxy rather than escaping with unscopables
+    const sandboxUnscopables = guardedIntrinsics ? omit(unscopables, 'Object') : unscopables;
+
+    const sharedGlobals = new Set<PropertyKey>(globals.shared);
+    const isolatedGlobals = new Set<PropertyKey>(globals.isolated);
+    const readonlyGlobals = new Set<PropertyKey>(globals.readonly);
+    const rejectReadonlyWrite = (p: PropertyKey) => {
+      const message = `${name} is not allowed to modify the readonly global ${String(p)}`;
+      if (globals.throwOnReadonlyWrite) {
+        throw new QiankunSandboxViolationError(message, { appName: name });
+      }
+
+      console.warn(`[qiankun] ${message}`);
+      return true;
+    };
 
     const descriptorTargetMap = new Map<PropertyKey, SymbolTarget>();
     const hasOwnProperty = (key: PropertyKey) => fakeWindow.hasOwnProperty(key) || rawWindow.hasOwnProperty(key);
@@ -177,6 +250,24 @@ export default class ProxySandbox implements SandBox {
     const proxy = new Proxy(fakeWindow, {
       set: (target: FakeWindow, p: PropertyKey, value: any): boolean => {
         if (this.sandboxRunning) {
+          // window.location = url works as location.href = url
+          if (virtualRouter && p === 'location') {
+            virtualRouter.location.href = value;
+            return true;
+          }
+
+          if (readonlyGlobals.has(p)) {
+            return rejectReadonlyWrite(p);
+          }
+
+          if (sharedGlobals.has(p)) {
+            // @ts-ignore
+            rawWindow[p] = value;
+            auditor?.('write', p);
+            this.latestSetProp = p;
+            return true;
+          }
+
           // We must kept its description while the property existed in rawWindow before
           if (!target.hasOwnProperty(p) && rawWindow.hasOwnProperty(p)) {
             const descriptor = Object.getOwnPropertyDescriptor(rawWindow, p);
@@ -200,6 +291,7 @@ export default class ProxySandbox implements SandBox {
           }
 
           updatedValueSet.add(p);
+          auditor?.('write', p);
 
           this.latestSetProp = p;
 
@@ -221,7 +313,7 @@ export default class ProxySandbox implements SandBox {
         // this approach is just a workaround, it could not cover all complex cases, such as the micro app runs in the same task context with master in some case
         nextTask(() => setCurrentRunningSandboxProxy(null));
 
-        if (p === Symbol.unscopables) return unscopables;
+        if (p === Symbol.unscopables) return sandboxUnscopables;
 
         // avoid who using window.window or window.self to escape the sandbox environment to touch the really window
         // see https://github.com/eligrey/FileSaver.js/blob/master/src/FileSaver.js#L13
@@ -246,6 +338,18 @@ export default class ProxySandbox implements SandBox {
           return (rawWindow as any)[p];
         }
 
+        if (virtualRouter && (p === 'location' || p === 'history')) {
+          return virtualRouter[p];
+        }
+
+        if (guardedIntrinsics && (p === 'Object' || p === 'Reflect') && !target.hasOwnProperty(p)) {
+          return guardedIntrinsics[p];
+        }
+
+        if (storageIsolation && (p === 'localStorage' || p === 'sessionStorage' || p === 'indexedDB')) {
+          return getScopedStorage(p);
+        }
+
         // proxy.hasOwnProperty would invoke getter firstly, then its value represented as rawWindow.hasOwnProperty
         if (p === 'hasOwnProperty') {
           return hasOwnProperty;
@@ -255,7 +359,7 @@ export default class ProxySandbox implements SandBox {
         if (p === 'document' || p === 'eval') {
           switch (p) {
             case 'document':
-              return document;
+              return sandboxDocument;
             case 'eval':
               // eslint-disable-next-line no-eval
               return eval;
@@ -263,19 +367,22 @@ export default class ProxySandbox implements SandBox {
           }
         }
 
-        // eslint-disable-next-line no-nested-ternary
-        const value = propertiesWithGetter.has(p)
-          ? (rawWindow as any)[p]
-          : p in target
-          ? (target as any)[p]
-          : (rawWindow as any)[p];
+        if (isolatedGlobals.has(p)) {
+          return getTargetValue(rawWindow, (target as any)[p]);
+        }
+
+        const fromRawWindow = propertiesWithGetter.has(p) || sharedGlobals.has(p) || !(p in target);
+        if (fromRawWindow) auditor?.('read', p);
+
+        const value = fromRawWindow ? (rawWindow as any)[p] : (target as any)[p];
         return getTargetValue(rawWindow, value);
       },
 
       // trap in operator
       // see https://github.com/styled-components/styled-components/blob/master/packages/styled-components/src/constants.js#L12
       has(target: FakeWindow, p: string | number | symbol): boolean {
-        return p in unscopables || p in target || p in rawWindow;
+        // the isolated globals should be resolved through proxy even if they are not defined, rather than the outer scope
+        return p in sandboxUnscopables || p in target || p in rawWindow || isolatedGlobals.has(p);
       },
 
       getOwnPropertyDescriptor(target: FakeWindow, p: string | number | symbol): PropertyDescriptor | undefined {
@@ -290,7 +397,7 @@ export default class ProxySandbox implements SandBox {
           return descriptor;
         }
 
-        if (rawWindow.hasOwnProperty(p)) {
+        if (rawWindow.hasOwnProperty(p) && !isolatedGlobals.has(p)) {
           const descriptor = Object.getOwnPropertyDescriptor(rawWindow, p);
           descriptorTargetMap.set(p, 'rawWindow');
           // A property cannot be reported as non-configurable, if it does not exists as an own property of the target object
@@ -309,7 +416,12 @@ export default class ProxySandbox implements SandBox {
       },
 
       defineProperty(target: Window, p: PropertyKey, attributes: PropertyDescriptor): boolean {
-        const from = descriptorTargetMap.get(p);
+        auditor?.('define', p);
+        if (readonlyGlobals.has(p)) {
+          return rejectReadonlyWrite(p);
+        }
+
+        const from = sharedGlobals.has(p) ? 'rawWindow' : descriptorTargetMap.get(p);
         /*
          Descriptor must be defined to native window while it comes from native window via Object.getOwnPropertyDescriptor(window, p),
          otherwise it would cause a TypeError with illegal invocation.
@@ -323,6 +435,15 @@ export default class ProxySandbox implements SandBox {
       },
 
       deleteProperty(target: FakeWindow, p: string | number | symbol): boolean {
+        auditor?.('delete', p);
+        if (readonlyGlobals.has(p)) {
+          return rejectReadonlyWrite(p);
+        }
+
+        if (sharedGlobals.has(p)) {
+          return Reflect.deleteProperty(rawWindow, p);
+        }
+
         if (target.hasOwnProperty(p)) {
           // @ts-ignore
           delete target[p];
@@ -341,6 +462,7 @@ export default class ProxySandbox implements SandBox {
     });
 
     this.proxy = proxy;
+    if (virtualRouter) attachVirtualRouter(proxy, virtualRouter);
 
     activeSandboxCount++;
   }
@@ -0,0 +1,323 @@
+/**
+ * virtual location and history for the apps who should not share the url with master
+ */
+
+import { isPlainObject } from 'lodash';
+import { QiankunError } from '../error';
+import type { RoutingMode } from '../interfaces';
+
+type RouterEntry = {
+  // pathname + search + hash
+  url: string;
+  state: any;
+  // identify the entry as the url and state could be the same between entries
+  key: string;
+};
+
+type RouterStack = {
+  current: () => RouterEntry;
+  length: () => number;
+  push: (entry: RouterEntry) => void;
+  replace: (entry: RouterEntry) => void;
+  go: (delta: number) => void;
+};
+
+export type VirtualRouter = {
+  location: Location;
+  history: History;
+  isRoutingEvent: (type: string) => boolean;
+  addEventListener: (type: string, listener: EventListenerOrEventListenerObject) => void;
+  removeEventListener: (type: string, listener: EventListenerOrEventListenerObject) => void;
+  // hold the segment of browser url while app mounted, which is shared by all the instances of the same app
+  acquire: () => void;
+  release: () => void;
+};
+
+const rawAddEventListener = window.addEventListener;
+const rawRemoveEventListener = window.removeEventListener;
+// single-spa patches the history apis of window.history to dispatch popstate, which should not be triggered by the writes of app segment
+const rawHistoryMethods = { pushState: History.prototype.pushState, replaceState: History.prototype.replaceState };
+
+const routingEventTypes = ['popstate', 'hashchange'];
+
+// the segment key is the app name to be restored after reload, thus only one instance of app could hold it at the same time
+const segmentHolderMap = new Map<string, VirtualRouter>();
+
+let entryKeySeed = 0;
+const createEntryKey = () => `${++entryKeySeed}`;
+
+function parseUrl(url: string | URL, base = '/') {
+  return new URL(String(url), `${window.location.origin}${base}`);
+}
+
+function formatUrl({ pathname, search, hash }: URL) {
+  return `${pathname}${search}${hash}`;
+}
+
+function createMemoryStack(onPop: (entry: RouterEntry) => void): RouterStack {
+  let entries: RouterEntry[] = [{ url: '/', state: null, key: createEntryKey() }];
+  let index = 0;
+
+  return {
+    current: () => entries[index],
+    length: () => entries.length,
+    push(entry) {
+      entries = [...entries.slice(0, index + 1), entry];
+      index = entries.length - 1;
+    },
+    replace(entry) {
+      entries[index] = entry;
+    },
+    go(delta) {
+      // popstate is dispatched asynchronously as browser does
+      setTimeout(() => {
+        const nextIndex = index + delta;
+        if (delta !== 0 && nextIndex >= 0 && nextIndex < entries.length) {
+          index = nextIndex;
+          onPop(entries[index]);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * the url of app is stored in a query segment of browser url, and its state is merged into the browser history state
+ * @param appName
+ */
+function createSegmentStack(appName: string): RouterStack {
+  const segmentKey = `qiankun-${appName}`;
+  const stateKey = `__qiankun_${appName}__`;
+
+  const write = (method: 'pushState' | 'replaceState', { url, state, key }: RouterEntry) => {
+    const { pathname, search, hash } = window.location;
+    const searchParams = new URLSearchParams(search);
+    searchParams.set(segmentKey, url);
+    const rawState = window.history.state;
+
+    rawHistoryMethods[method].call(
+      window.history,
+      { ...(isPlainObject(rawState) ? rawState : {}), [stateKey]: { state, key } },
+      '',
+      `${pathname}?${searchParams}${hash}`,
+    );
+  };
+
+  return {
+    current() {
+      const url = new URLSearchParams(window.location.search).get(segmentKey) || '/';
+      const { state = null, key = 'initial' } = window.history.state?.[stateKey] || {};
+      return { url, state, key };
+    },
+    length: () => window.history.length,
+    push: (entry) => write('pushState', entry),
+    replace: (entry) => write('replaceState', entry),
+    go: (delta) => window.history.go(delta),
+  };
+}
+
+function dispatchTo(listeners: EventListenerOrEventListenerObject[], event: Event) {
+  listeners.forEach((listener) => {
+    // a broken listener should not block the others, the same as browser does
+    try {
+      if (typeof listener === 'function') {
+        listener.call(window, event);
+      } else {
+        listener.handleEvent(event);
+      }
+    } catch (e) {
+      console.error(e);
+    }
+  });
+}
+
+/**
+ * 创建应用独立的 location 与 history
+ * popstate 与 hashchange 事件只会派发给通过 addEventListener 注册到该路由上的监听器
+ * @param appName
+ * @param mode
+ */
+export function createVirtualRouter(appName: string, mode: Exclude<RoutingMode, 'browser'>): VirtualRouter {
+  const listenerMap = new Map<string, EventListenerOrEventListenerObject[]>();
+  let lastEntry: RouterEntry;
+
+  const notify = (prev: RouterEntry, entry: RouterEntry) => {
+    lastEntry = entry;
+    if (prev.key === entry.key) return;
+
+    dispatchTo(listenerMap.get('popstate') || [], new PopStateEvent('popstate', { state: entry.state }));
+
+    const { origin } = window.location;
+    if (parseUrl(prev.url).hash !== parseUrl(entry.url).hash) {
+      dispatchTo(
+        listenerMap.get('hashchange') || [],
+        new HashChangeEvent('hashchange', { oldURL: `${origin}${prev.url}`, newURL: `${origin}${entry.url}` }),
+      );
+    }
+  };
+
+  const stack =
+    mode === 'memory' ? createMemoryStack((entry) => notify(lastEntry, entry)) : createSegmentStack(appName);
+  lastEntry = stack.current();
+  const onBrowserPopState = () => notify(lastEntry, stack.current());
+
+  // the browser popstate is only watched while app listening, as back/forward would change the segment of app
+  let watchingBrowser = false;
+  const watchBrowserIfNeeded = () => {
+    if (mode !== 'hash-segment') return;
+
+    const listening = routingEventTypes.some((type) => listenerMap.get(type)?.length);
+    if (listening && !watchingBrowser) {
+      lastEntry = stack.current();
+      rawAddEventListener.call(window, 'popstate', onBrowserPopState);
+    } else if (!listening && watchingBrowser) {
+      rawRemoveEventListener.call(window, 'popstate', onBrowserPopState);
+    }
+    watchingBrowser = listening;
+  };
+
+  const navigate = (method: 'push' | 'replace', url: string | URL | null | undefined, state: any) => {
+    const prev = stack.current();
+    const entry = { url: url == null ? prev.url : formatUrl(parseUrl(url, prev.url)), state, key: createEntryKey() };
+    stack[method](entry);
+    lastEntry = entry;
+    return [prev, entry];
+  };
+
+  // navigating with location would trigger the routing events, but the history apis never do that
+  const navigateWithLocation = (method: 'push' | 'replace', url: string | URL) => {
+    if (formatUrl(parseUrl(url, stack.current().url)) === stack.current().url) return;
+    const [prev, entry] = navigate(method, url, null);
+    notify(prev, entry);
+  };
+
+  const updateUrl = (update: (url: URL) => void) => {
+    const url = parseUrl(stack.current().url);
+    update(url);
+    navigateWithLocation('push', url);
+  };
+
+  const location = {
+    get href() {
+      return `${window.location.origin}${stack.current().url}`;
+    },
+    set href(url: string) {
+      navigateWithLocation('push', url);
+    },
+    get pathname() {
+      return parseUrl(stack.current().url).pathname;
+    },
+    set pathname(pathname: string) {
+      updateUrl((url) => {
+        url.pathname = pathname;
+      });
+    },
+    get search() {
+      return parseUrl(stack.current().url).search;
+    },
+    set search(search: string) {
+      updateUrl((url) => {
+        url.search = search;
+      });
+    },
+    get hash() {
+      return parseUrl(stack.current().url).hash;
+    },
+    set hash(hash: string) {
+      updateUrl((url) => {
+        url.hash = hash;
+      });
+    },
+    get origin() {
+      return window.location.origin;
+    },
+    get protocol() {
+      return window.location.protocol;
+    },
+    get host() {
+      return window.location.host;
+    },
+    get hostname() {
+      return window.location.hostname;
+    },
+    get port() {
+      return window.location.port;
+    },
+    get ancestorOrigins() {
+      return window.location.ancestorOrigins;
+    },
+    assign: (url: string | URL) => navigateWithLocation('push', url),
+    replace: (url: string | URL) => navigateWithLocation('replace', url),
+    reload: () => window.location.reload(),
+    toString: () => location.href,
+  } as Location;
+
+  const history = {
+    get length() {
+      return stack.length();
+    },
+    get state() {
+      return stack.current().state;
+    },
+    scrollRestoration: 'auto',
+    pushState: (state: any, _: string, url?: string | URL | null) => {
+      navigate('push', url, state);
+    },
+    replaceState: (state: any, _: string, url?: string | URL | null) => {
+      navigate('replace', url, state);
+    },
+    go: (delta = 0) => stack.go(delta),
+    back: () => stack.go(-1),
+    forward: () => stack.go(1),
+  } as History;
+
+  const router: VirtualRouter = {
+    location,
+    history,
+    isRoutingEvent: (type) => routingEventTypes.includes(type),
+    addEventListener(type, listener) {
+      const listeners = listenerMap.get(type) || [];
+      listenerMap.set(type, [...listeners, listener]);
+      watchBrowserIfNeeded();
+    },
+    removeEventListener(type, listener) {
+      const listeners = listenerMap.get(type);
+      if (listeners) {
+        listenerMap.set(
+          type,
+          listeners.filter((l) => l !== listener),
+        );
+      }
+      watchBrowserIfNeeded();
+    },
+    acquire() {
+      if (mode !== 'hash-segment') return;
+
+      const holder = segmentHolderMap.get(appName);
+      if (holder && holder !== router) {
+        throw new QiankunError(
+          `${appName} with hash-segment routing mode could not be mounted as another instance of it is still mounted!`,
+          { appName, phase: 'mount' },
+        );
+      }
+      segmentHolderMap.set(appName, router);
+    },
+    release() {
+      if (segmentHolderMap.get(appName) === router) {
+        segmentHolderMap.delete(appName);
+      }
+    },
+  };
+
+  return router;
+}
+
+const proxyAttachedRouterMap = new WeakMap<WindowProxy, VirtualRouter>();
+
+export function attachVirtualRouter(proxy: WindowProxy, router: VirtualRouter) {
+  proxyAttachedRouterMap.set(proxy, router);
+}
+
+export function getVirtualRouter(proxy: WindowProxy) {
+  return proxyAttachedRouterMap.get(proxy);
+}
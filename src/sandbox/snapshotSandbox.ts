@@ -2,21 +2,97 @@
  * @author Hydrogen
  * @since 2020-3-8
  */
-import type { SandBox } from '../interfaces';
+import { noop } from 'lodash';
+import type { AppSandboxConfiguration, SandBox } from '../interfaces';
 import { SandBoxType } from '../interfaces';
 
-function iter(obj: typeof window, callbackFn: (prop: any) => void) {
-  // eslint-disable-next-line guard-for-in, no-restricted-syntax
-  for (const prop in obj) {
-    // patch for clearInterval for compatible reason, see #1490
-    if (obj.hasOwnProperty(prop) || prop === 'clearInterval') {
-      callbackFn(prop);
-    }
+type PropertySnapshot = {
+  // the native accessors are compared with their descriptors, as some getters (such as innerWidth) would force layout
+  descriptor?: PropertyDescriptor;
+  value?: any;
+};
+
+/**
+ * the own enumerable properties of window
+ * for...in is avoided as it walks the whole prototype chain of window, which is much slower with thousands of globals
+ */
+function getWindowKeys(): string[] {
+  const keys = Object.keys(window);
+  // patch for clearInterval for compatible reason, see #1490
+  if (!Object.prototype.hasOwnProperty.call(window, 'clearInterval')) {
+    keys.push('clearInterval');
   }
+  return keys;
+}
+
+// whether the key of window is an accessor, every key is only checked at the first time it appears
+// the event handlers (such as onresize) are excluded as apps assign them usually
+const accessorKeyMap = new Map<string, boolean>();
+function isAccessorKey(key: string) {
+  let isAccessor = accessorKeyMap.get(key);
+  if (isAccessor === undefined) {
+    isAccessor = !key.startsWith('on') && typeof Object.getOwnPropertyDescriptor(window, key)?.get === 'function';
+    accessorKeyMap.set(key, isAccessor);
+  }
+
+  return isAccessor;
+}
+
+function snapshotProperty(key: string): PropertySnapshot {
+  if (isAccessorKey(key)) {
+    const descriptor = Object.getOwnPropertyDescriptor(window, key);
+    if (descriptor?.get) return { descriptor };
+  }
+
+  return { value: (window as any)[key] };
+}
+
+function isPropertyModified(key: string, { descriptor, value }: PropertySnapshot) {
+  if (descriptor) {
+    const currentDescriptor = Object.getOwnPropertyDescriptor(window, key);
+    return currentDescriptor?.get !== descriptor.get || currentDescriptor?.set !== descriptor.set;
+  }
+
+  return !Object.is((window as any)[key], value);
 }
 
+/**
+ * restore the property through its descriptor, as the assignment throws in strict mode while it is a getter-only accessor
+ * @param key
+ * @param descriptor
+ */
+function defineWindowProperty(key: string, descriptor: PropertyDescriptor) {
+  // the global variables declared with var are not configurable, but their values are still writable
+  if (!Reflect.defineProperty(window, key, descriptor) && 'value' in descriptor) {
+    Reflect.set(window, key, descriptor.value);
+  }
+}
+
+function restoreProperty(key: string, { descriptor, value }: PropertySnapshot) {
+  if (descriptor) {
+    defineWindowProperty(key, descriptor);
+    return;
+  }
+
+  const currentDescriptor = Object.getOwnPropertyDescriptor(window, key);
+  if (currentDescriptor && 'value' in currentDescriptor) {
+    Reflect.set(window, key, value);
+  } else {
+    // the app turned it into an accessor or deleted it
+    defineWindowProperty(key, { value, writable: true, enumerable: true, configurable: true });
+  }
+}
+
+// the scheduled calls of all the cooperative sandboxes are executed one by one
+let schedulingQueue: Promise<unknown> = Promise.resolve();
+// the sandboxes whose scheduled calls are running, the nested ones are at the end
+const schedulingSandboxes: SnapshotSandbox[] = [];
+
 /**
  * 基于 diff 方式实现的沙箱，用于不支持 Proxy 的低版本浏览器
+ * 协作模式下，应用的脚本执行与生命周期调用会被串行调度，每次调用前恢复应用的全局变量，调用结束后再还原 window
+ * 从而支持多个应用同时存在，但应用在调度之外（如事件回调中）将无法读取到自己的全局变量
+ * 在某个应用的调度期间创建的沙箱（如在 mount 中通过 loadMicroApp 加载的应用）被视为嵌套的，其调用会在外层调度中直接执行，避免互相等待
  */
 export default class SnapshotSandbox implements SandBox {
   proxy: WindowProxy;
@@ -27,46 +103,155 @@ export default class SnapshotSandbox implements SandBox {
 
   sandboxRunning = true;
 
-  private windowSnapshot!: Window;
+  // 快照只在首次激活时完整记录，之后每次激活仅更新变化的属性
+  private windowSnapshot = new Map<string, PropertySnapshot>();
+
+  // 应用变更过的属性的描述符，被应用删除的属性为 undefined
+  private modifiedDescriptors = new Map<string, PropertyDescriptor | undefined>();
+
+  private readonly cooperative: boolean;
 
-  private modifyPropsMap: Record<any, any> = {};
+  // the sandbox whose scheduled call created this one
+  private readonly outerSandbox: SnapshotSandbox | null = null;
 
-  constructor(name: string) {
+  schedule?: <T>(task: () => Promise<T>) => Promise<T>;
+
+  constructor(name: string, { cooperative = false }: AppSandboxConfiguration = {}) {
     this.name = name;
     this.proxy = window;
     this.type = SandBoxType.Snapshot;
+    this.cooperative = cooperative;
+
+    if (cooperative) {
+      this.outerSandbox = schedulingSandboxes[schedulingSandboxes.length - 1] ?? null;
+      this.schedule = <T>(task: () => Promise<T>) => {
+        // the outer call might be waiting for the nested app, it would never finish if the nested calls are queued
+        if (this.outerSandbox && schedulingSandboxes.includes(this.outerSandbox)) {
+          return this.runScheduledTask(task);
+        }
+
+        const scheduled = schedulingQueue.then(() => this.runScheduledTask(task));
+        // the failure of one app should not block the others
+        schedulingQueue = scheduled.catch(noop);
+        return scheduled;
+      };
+    }
+  }
+
+  /**
+   * the slot of scheduling is released once the task settled, the task should be limited with timeout by the caller
+   * @param task
+   */
+  private async runScheduledTask<T>(task: () => Promise<T>) {
+    schedulingSandboxes.push(this);
+    this.restoreModifications();
+    try {
+      return await task();
+    } finally {
+      this.recordModifications();
+      schedulingSandboxes.splice(schedulingSandboxes.indexOf(this), 1);
+    }
   }
 
   active() {
-    // 记录当前快照
-    this.windowSnapshot = {} as Window;
-    iter(window, (prop) => {
-      this.windowSnapshot[prop] = window[prop];
-    });
+    // 协作模式下全局变量只在调度期间生效
+    if (!this.cooperative) {
+      this.restoreModifications();
+    }
+
+    this.sandboxRunning = true;
+  }
+
+  inactive() {
+    if (!this.cooperative) {
+      this.recordModifications();
+    }
+
+    if (process.env.NODE_ENV === 'development') {
+      console.info(`[qiankun:sandbox] ${this.name} origin window restore...`, [...this.modifiedDescriptors.keys()]);
+    }
+
+    this.sandboxRunning = false;
+  }
+
+  private restoreModifications() {
+    this.refreshSnapshot();
 
     // 恢复之前的变更
-    Object.keys(this.modifyPropsMap).forEach((p: any) => {
-      window[p] = this.modifyPropsMap[p];
+    this.modifiedDescriptors.forEach((descriptor, key) => {
+      if (descriptor) {
+        defineWindowProperty(key, descriptor);
+      } else {
+        Reflect.deleteProperty(window, key);
+      }
     });
+  }
 
-    this.sandboxRunning = true;
+  /**
+   * update the snapshot with the properties master changed since the last activation
+   * the existing properties are compared by value, only the added and changed ones are snapshot again
+   */
+  private refreshSnapshot() {
+    const { windowSnapshot } = this;
+    const snapshotSize = windowSnapshot.size;
+    let matchedCount = 0;
+
+    const windowKeys = getWindowKeys();
+    windowKeys.forEach((key) => {
+      const snapshot = windowSnapshot.get(key);
+      if (snapshot) {
+        matchedCount += 1;
+        if (!isPropertyModified(key, snapshot)) return;
+      }
+
+      windowSnapshot.set(key, snapshotProperty(key));
+    });
+
+    // some keys of the snapshot were deleted by master
+    if (matchedCount < snapshotSize) {
+      const windowKeySet = new Set(windowKeys);
+      windowSnapshot.forEach((_, key) => {
+        if (!windowKeySet.has(key)) windowSnapshot.delete(key);
+      });
+    }
   }
 
-  inactive() {
-    this.modifyPropsMap = {};
+  private recordModifications() {
+    const { windowSnapshot } = this;
+    const modifiedDescriptors = new Map<string, PropertyDescriptor | undefined>();
+    let matchedCount = 0;
 
-    iter(window, (prop) => {
-      if (window[prop] !== this.windowSnapshot[prop]) {
+    // 新增与删除的属性只需比较 key 列表，已有的属性再逐个比较值或描述符
+    const windowKeys = getWindowKeys();
+    windowKeys.forEach((key) => {
+      const snapshot = windowSnapshot.get(key);
+      if (!snapshot) {
+        modifiedDescriptors.set(key, Object.getOwnPropertyDescriptor(window, key));
+        // the global variables declared with var are not configurable
+        if (!Reflect.deleteProperty(window, key)) {
+          Reflect.set(window, key, undefined);
+        }
+        return;
+      }
+
+      matchedCount += 1;
+      if (isPropertyModified(key, snapshot)) {
         // 记录变更，恢复环境
-        this.modifyPropsMap[prop] = window[prop];
-        window[prop] = this.windowSnapshot[prop];
+        modifiedDescriptors.set(key, Object.getOwnPropertyDescriptor(window, key));
+        restoreProperty(key, snapshot);
       }
     });
 
-    if (process.env.NODE_ENV === 'development') {
-      console.info(`[qiankun:sandbox] ${this.name} origin window restore...`, Object.keys(this.modifyPropsMap));
+    if (matchedCount < windowSnapshot.size) {
+      const windowKeySet = new Set(windowKeys);
+      windowSnapshot.forEach((snapshot, key) => {
+        if (!windowKeySet.has(key)) {
+          modifiedDescriptors.set(key, undefined);
+          restoreProperty(key, snapshot);
+        }
+      });
     }
 
-    this.sandboxRunning = false;
+    this.modifiedDescriptors = modifiedDescriptors;
   }
 }
@@ -0,0 +1,128 @@
+/**
+ * namespaced web storages and indexedDB for the apps who should not share the persistent data with each other
+ */
+
+const storageMethods = ['getItem', 'setItem', 'removeItem', 'clear', 'key'];
+
+function getNamespace(appName: string) {
+  return `qiankun:${appName}:`;
+}
+
+/**
+ * 创建应用独立的 storage，应用的 key 会被加上应用名前缀，clear 只会清除应用自己的 key
+ * 同时支持 storage.key 以及 storage.key = value 的属性访问方式
+ * @param appName
+ * @param storage
+ * @param sharedKeys
+ */
+export function createScopedStorage(appName: string, storage: Storage, sharedKeys: string[] = []): Storage {
+  const namespace = getNamespace(appName);
+  const isShared = (key: string) => sharedKeys.includes(key);
+  const toRawKey = (key: string) => (isShared(key) ? key : `${namespace}${key}`);
+
+  const keys = () => {
+    const result: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const rawKey = storage.key(i)!;
+      if (rawKey.startsWith(namespace)) {
+        result.push(rawKey.slice(namespace.length));
+      } else if (isShared(rawKey)) {
+        result.push(rawKey);
+      }
+    }
+    return result;
+  };
+
+  const scopedStorage = {
+    getItem: (key: string) => storage.getItem(toRawKey(String(key))),
+    setItem: (key: string, value: string) => storage.setItem(toRawKey(String(key)), value),
+    removeItem: (key: string) => storage.removeItem(toRawKey(String(key))),
+    // the shared keys are not owned by app, so they are kept
+    clear: () =>
+      keys()
+        .filter((key) => !isShared(key))
+        .forEach((key) => storage.removeItem(toRawKey(key))),
+    key: (index: number) => keys()[index] ?? null,
+  };
+
+  const storagePrototype = Reflect.getPrototypeOf(storage) as Storage;
+  // the members of Storage.prototype (such as toString) take precedence over the items, the same as the native storage
+  const isPrototypeMember = (p: PropertyKey) => typeof p !== 'string' || p in storagePrototype;
+
+  return new Proxy({} as Storage, {
+    get(_, p, receiver) {
+      if (p === 'length') return keys().length;
+      if (typeof p === 'string' && storageMethods.includes(p)) return (scopedStorage as any)[p];
+      if (isPrototypeMember(p)) return Reflect.get(storagePrototype, p, receiver);
+
+      return scopedStorage.getItem(p as string) ?? undefined;
+    },
+
+    set(_, p, value) {
+      if (typeof p === 'string') scopedStorage.setItem(p, String(value));
+      return true;
+    },
+
+    deleteProperty(_, p) {
+      if (typeof p === 'string') scopedStorage.removeItem(p);
+      return true;
+    },
+
+    has(_, p) {
+      return (
+        isPrototypeMember(p) || storageMethods.includes(p as string) || scopedStorage.getItem(p as string) !== null
+      );
+    },
+
+    ownKeys() {
+      return keys();
+    },
+
+    getOwnPropertyDescriptor(_, p) {
+      const value = typeof p === 'string' ? scopedStorage.getItem(p) : null;
+      return value === null ? undefined : { value, writable: true, enumerable: true, configurable: true };
+    },
+
+    // makes sure `localStorage instanceof Storage` returns truthy in micro app
+    getPrototypeOf() {
+      return Reflect.getPrototypeOf(storage);
+    },
+  });
+}
+
+/**
+ * 创建应用独立的 indexedDB，数据库名会被加上应用名前缀
+ * @param appName
+ * @param indexedDB
+ * @param sharedKeys
+ */
+export function createScopedIndexedDB(appName: string, indexedDB: IDBFactory, sharedKeys: string[] = []): IDBFactory {
+  const namespace = getNamespace(appName);
+  const toRawName = (name: string) => (sharedKeys.includes(name) ? name : `${namespace}${name}`);
+
+  return new Proxy(indexedDB, {
+    get(target, p) {
+      switch (p) {
+        case 'open':
+          return (name: string, version?: number) =>
+            version === undefined ? target.open(toRawName(name)) : target.open(toRawName(name), version);
+        case 'deleteDatabase':
+          return (name: string) => target.deleteDatabase(toRawName(name));
+        case 'databases':
+          return () =>
+            (target as any).databases().then((databases: Array<{ name?: string; version?: number }>) =>
+              databases
+                .filter(({ name = '' }) => name.startsWith(namespace) || sharedKeys.includes(name))
+                .map((info) => ({
+                  ...info,
+                  name: info.name!.startsWith(namespace) ? info.name!.slice(namespace.length) : info.name,
+                })),
+            );
+        default: {
+          const value = (target as any)[p];
+          return typeof value === 'function' ? value.bind(target) : value;
+        }
+      }
+    },
+  });
+}
@@ -4,7 +4,7 @@
  */
 
 import { isFunction, snakeCase } from 'lodash';
-import type { FrameworkConfiguration } from './interfaces';
+import type { AppConfiguration, FrameworkConfiguration, SandboxConfiguration } from './interfaces';
 
 export function toArray<T>(array: T | T[]): T[] {
   return Array.isArray(array) ? array : [array];
@@ -14,6 +14,32 @@ export function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Reject with the error created by onTimeout if the promise not settled in time, the promise will be returned as it is while timeout not set
+ * @param promise
+ * @param timeout
+ * @param onTimeout
+ */
+export function withTimeout<T>(promise: Promise<T>, timeout: number | undefined, onTimeout: () => Error): Promise<T> {
+  if (!timeout || timeout <= 0) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), timeout);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (reason) => {
+        clearTimeout(timer);
+        reject(reason);
+      },
+    );
+  });
+}
+
 // Promise.then might be synchronized in Zone.js context, we need to use setTimeout instead to mock next tick.
 const nextTick: (cb: () => void) => void =
   typeof window.Zone === 'function' ? setTimeout : (cb) => Promise.resolve().then(cb);
@@ -172,6 +198,53 @@ export function isEnableScopedCSS(sandbox: FrameworkConfiguration['sandbox']) {
   return !!sandbox.experimentalStyleIsolation;
 }
 
+/**
+ * 如果不支持 Proxy 则降级到快照沙箱，loose 表示使用快照沙箱
+ * @param configuration
+ */
+export function degradeSandboxWithoutProxy(configuration: FrameworkConfiguration): FrameworkConfiguration {
+  const { sandbox } = configuration;
+  if (window.Proxy || !sandbox) {
+    return configuration;
+  }
+
+  return { ...configuration, sandbox: typeof sandbox === 'object' ? { ...sandbox, loose: true } : { loose: true } };
+}
+
+/**
+ * 将应用级别的配置合并到框架配置上，未配置的项沿用框架配置
+ * @param configuration
+ * @param appConfiguration
+ */
+export function mergeAppConfiguration(
+  configuration: FrameworkConfiguration,
+  { sandbox, ...appConfiguration }: AppConfiguration,
+): FrameworkConfiguration {
+  const merged = { ...configuration };
+  (Object.keys(appConfiguration) as Array<keyof typeof appConfiguration>).forEach((key) => {
+    if (appConfiguration[key] !== undefined) {
+      (merged as any)[key] = appConfiguration[key];
+    }
+  });
+
+  const { sandbox: frameworkSandbox } = configuration;
+  if (typeof sandbox === 'object') {
+    merged.sandbox = typeof frameworkSandbox === 'object' ? { ...frameworkSandbox, ...sandbox } : sandbox;
+  } else if (sandbox === false || (sandbox === true && !frameworkSandbox)) {
+    merged.sandbox = sandbox;
+  }
+
+  const degraded = degradeSandboxWithoutProxy(merged);
+  // 快照沙箱下若为非单例模式且未开启协作模式，则多个应用会互相污染全局变量
+  if (degraded !== merged && !degraded.singular && !(degraded.sandbox as SandboxConfiguration).cooperative) {
+    console.warn(
+      '[qiankun] Setting singular as false may cause unexpected behavior while your browser not support window.Proxy',
+    );
+  }
+
+  return degraded;
+}
+
 /**
  * copy from https://developer.mozilla.org/zh-CN/docs/Using_XPath
  * @param el